@@ -5,6 +5,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import History from "./pages/History";
+import TranscriptDetail from "./pages/TranscriptDetail";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,6 +19,9 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/s/:sessionId" element={<Index />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/history/:transcriptId" element={<TranscriptDetail />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Mic, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useMicrophoneDevices } from '@/hooks/useMicrophoneDevices';
+import { useMicrophoneLevel } from '@/hooks/useMicrophoneLevel';
+import type { MicrophonePermission, MicrophoneSettings } from '@/lib/microphone';
+import type { VoiceActivitySettings } from '@/lib/vad';
+import { cn } from '@/lib/utils';
+
+interface AudioSettingsDialogProps {
+  settings: MicrophoneSettings;
+  onChange: (settings: MicrophoneSettings) => void;
+  voiceActivity: VoiceActivitySettings;
+  onVoiceActivityChange: (settings: VoiceActivitySettings) => void;
+}
+
+// Select items can't have an empty value, so the system default gets its own
+const DEFAULT_DEVICE_VALUE = 'default';
+
+const PERMISSION_LABELS: {[key in MicrophonePermission]: { label: string; className: string }} = {
+  granted: { label: 'Allowed', className: 'bg-green-600 text-white' },
+  denied: { label: 'Blocked', className: 'bg-destructive text-destructive-foreground' },
+  prompt: { label: 'Not yet asked', className: 'bg-muted text-muted-foreground' },
+  unsupported: { label: 'Unknown', className: 'bg-muted text-muted-foreground' },
+};
+
+const PROCESSING_OPTIONS: { key: Exclude<keyof MicrophoneSettings, 'deviceId'>; label: string }[] = [
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'autoGainControl', label: 'Automatic gain' },
+];
+
+const PAUSE_OPTIONS = [500, 800, 1200, 2000];
+const AUTO_PAUSE_OPTIONS = [0, 10000, 30000, 60000, 120000];
+
+const describeDuration = (ms: number) => ms >= 60000 ? `${ms / 60000} min` : `${ms / 1000} s`;
+
+const AudioSettingsDialog: React.FC<AudioSettingsDialogProps> = ({
+  settings,
+  onChange,
+  voiceActivity,
+  onVoiceActivityChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const { devices, permission, requestPermission, refreshDevices } = useMicrophoneDevices();
+  // A live meter while the dialog is open, to check the choice before dictating
+  const { level } = useMicrophoneLevel(open && permission === 'granted', settings);
+
+  const selectedMissing = settings.deviceId && !devices.some(device => device.deviceId === settings.deviceId);
+  const status = PERMISSION_LABELS[permission];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs gap-1">
+          <Mic className="h-3.5 w-3.5" />
+          Microphone
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Microphone</DialogTitle>
+          <DialogDescription>
+            Choose the input used for the level meter, audio recording and the streaming speech server.
+            Your browser's built-in recognizer always listens to the system default input.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">Permission</span>
+          <div className="flex items-center gap-2">
+            <span className={cn('text-xs px-2 py-0.5 rounded-full', status.className)} role="status">
+              {status.label}
+            </span>
+            {permission !== 'granted' && permission !== 'denied' && (
+              <Button size="sm" variant="outline" className="h-7 text-xs" onClick={requestPermission}>
+                Allow access
+              </Button>
+            )}
+          </div>
+        </div>
+        {permission === 'denied' && (
+          <p className="text-xs text-muted-foreground">
+            Microphone access is blocked for this site. Allow it in your browser's site settings, then reload.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Input device</span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              onClick={refreshDevices}
+              aria-label="Refresh devices"
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <Select
+            value={settings.deviceId || DEFAULT_DEVICE_VALUE}
+            onValueChange={(value) => onChange({
+              ...settings,
+              deviceId: value === DEFAULT_DEVICE_VALUE ? '' : value,
+            })}
+          >
+            <SelectTrigger aria-label="Input device">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE_VALUE}>System default</SelectItem>
+              {devices
+                .filter(device => device.deviceId !== DEFAULT_DEVICE_VALUE)
+                .map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Microphone ${index + 1}`}
+                  </SelectItem>
+                ))}
+              {selectedMissing && (
+                <SelectItem value={settings.deviceId}>Disconnected microphone</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+          {selectedMissing && (
+            <p className="text-xs text-muted-foreground">
+              The chosen microphone isn't connected; the system default is used until it is.
+            </p>
+          )}
+          {open && permission === 'granted' && (
+            <div
+              className="h-1.5 w-full rounded-full bg-muted overflow-hidden"
+              role="meter"
+              aria-label="Input level"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(level * 100)}
+            >
+              <div
+                className="h-full bg-[hsl(var(--recording-color))] transition-[width] duration-75"
+                style={{ width: `${level * 100}%` }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {PROCESSING_OPTIONS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between">
+              <label htmlFor={key} className="text-sm font-medium">
+                {label}
+              </label>
+              <Switch
+                id={key}
+                checked={settings[key]}
+                onCheckedChange={(checked) => onChange({ ...settings, [key]: checked })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="voiceActivity" className="text-sm">
+              <span className="font-medium">Voice detection</span>
+              <span className="block text-xs text-muted-foreground">
+                Start a new segment at each pause and ignore background noise.
+              </span>
+            </label>
+            <Switch
+              id="voiceActivity"
+              checked={voiceActivity.enabled}
+              onCheckedChange={(enabled) => onVoiceActivityChange({ ...voiceActivity, enabled })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Pause between segments</span>
+            <Select
+              value={String(voiceActivity.pauseMs)}
+              onValueChange={(value) => onVoiceActivityChange({ ...voiceActivity, pauseMs: Number(value) })}
+              disabled={!voiceActivity.enabled}
+            >
+              <SelectTrigger className="w-[120px] h-8 text-xs" aria-label="Pause between segments">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAUSE_OPTIONS.map(ms => (
+                  <SelectItem key={ms} value={String(ms)}>{describeDuration(ms)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Stop after silence</span>
+            <Select
+              value={String(voiceActivity.autoPauseMs)}
+              onValueChange={(value) => onVoiceActivityChange({ ...voiceActivity, autoPauseMs: Number(value) })}
+              disabled={!voiceActivity.enabled}
+            >
+              <SelectTrigger className="w-[120px] h-8 text-xs" aria-label="Stop after silence">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_PAUSE_OPTIONS.map(ms => (
+                  <SelectItem key={ms} value={String(ms)}>{ms ? describeDuration(ms) : 'Never'}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AudioSettingsDialog;
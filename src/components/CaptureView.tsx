@@ -0,0 +1,108 @@
+import React from 'react';
+import { Mic } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import MicrophoneButton from '@/components/MicrophoneButton';
+import VoiceVisualizer from '@/components/VoiceVisualizer';
+import LanguageSelector from '@/components/LanguageSelector';
+import type { VisualizerMode } from '@/lib/settings';
+import type { MicrophoneSettings } from '@/lib/microphone';
+
+interface CaptureViewProps {
+  userId: string;
+  userName: string;
+  // Who this device is a microphone for
+  displayName: string;
+  // Whether that participant is here to take the dictation
+  isDisplayOnline: boolean;
+  isRecording: boolean;
+  isReconnecting: boolean;
+  interimText: string;
+  // Finished text the display hasn't taken yet
+  pendingText: string;
+  language: string;
+  visualizerMode: VisualizerMode;
+  microphone: MicrophoneSettings;
+  onToggleRecording: () => void;
+  onLanguageChange: (language: string) => void;
+  onVisualizerModeChange: (mode: VisualizerMode) => void;
+  onLevel: (level: number) => void;
+  onUnpair: () => void;
+  // Session controls, such as the connection status
+  children?: React.ReactNode;
+}
+
+// Minimal screen for a device used only as a microphone: the text is edited on the display
+const CaptureView: React.FC<CaptureViewProps> = ({
+  userId,
+  userName,
+  displayName,
+  isDisplayOnline,
+  isRecording,
+  isReconnecting,
+  interimText,
+  pendingText,
+  language,
+  visualizerMode,
+  microphone,
+  onToggleRecording,
+  onLanguageChange,
+  onVisualizerModeChange,
+  onLevel,
+  onUnpair,
+  children,
+}) => {
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-background">
+      <div className="w-full max-w-md mx-auto flex flex-col items-center space-y-8 animate-fade-in">
+        <header className="text-center space-y-2">
+          <div className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-secondary text-xs font-medium tracking-wider uppercase">
+            <Mic className="h-3 w-3" />
+            Microphone
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight">
+            Dictating for {displayName}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {isDisplayOnline
+              ? `What you say appears on ${displayName}'s screen, where it can be edited.`
+              : `${displayName} is not connected. Dictation is kept here until they are back.`}
+          </p>
+        </header>
+
+        {children}
+
+        <VoiceVisualizer
+          isRecording={isRecording}
+          userId={userId}
+          userName={userName}
+          microphone={microphone}
+          mode={visualizerMode}
+          onModeChange={onVisualizerModeChange}
+          onLevel={onLevel}
+        />
+
+        <MicrophoneButton
+          isRecording={isRecording}
+          isReconnecting={isReconnecting}
+          onClick={onToggleRecording}
+        />
+
+        {(pendingText || interimText) && (
+          <p className="w-full text-center text-sm">
+            {pendingText}
+            {interimText && <span className="text-muted-foreground"> {interimText}</span>}
+          </p>
+        )}
+
+        <div className="flex flex-wrap justify-center gap-2">
+          <LanguageSelector language={language} onChange={onLanguageChange} />
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={onUnpair}>
+            Stop using as microphone
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptureView;
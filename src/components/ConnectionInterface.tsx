@@ -3,60 +3,137 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Share, Users, Copy, Key } from 'lucide-react';
+import { Share, Users, Copy, Key, RefreshCw, Lock, Mic, Monitor } from 'lucide-react';
 import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ConnectedUser, PresenceStatus } from '@/hooks/useRealTimeSharing';
+import { getLanguageLabel, getLanguageShortCode } from '@/lib/languages';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/sessionAuth';
+import { parseSessionLink, SessionLink } from '@/lib/sessionCrypto';
+import InviteDialog, { CreatedInvite } from '@/components/InviteDialog';
+import { DEVICE_ROLE_LABELS } from '@/lib/pairing';
 
 interface ConnectionInterfaceProps {
   sessionId: string;
+  userId: string;
   userName: string;
-  connectedUsers: {[key: string]: {name: string, isRecording: boolean}};
-  onCreateSession: () => void;
-  onJoinSession: (sessionId: string) => void;
+  // Everyone who has taken part in the session, including those now offline
+  roster: {[key: string]: ConnectedUser};
+  isSessionOwner?: boolean;
+  // Invite link for the current session, including the encryption key
+  sessionLink?: string;
+  // Session and key taken from an invite link the page was opened with
+  initialInvite?: SessionLink | null;
+  onCreateSession: (passphrase: string) => Promise<unknown>;
+  onJoinSession: (
+    sessionId: string,
+    credentials: { passphrase: string } | { inviteToken: string },
+    secret: string
+  ) => Promise<boolean>;
+  onRotatePassphrase?: (passphrase: string) => Promise<boolean>;
+  onCreateInvite?: (expiresInMinutes?: number) => Promise<CreatedInvite | null>;
   onChangeUserName: (name: string) => void;
+  // Turns this device into a microphone for another participant, or back into an editor (null)
+  onPairWith?: (displayId: string | null) => void;
 }
 
+const STATUS_STYLES: {[key in PresenceStatus]: { dot: string; label: string }} = {
+  online: { dot: 'bg-green-500', label: 'Online' },
+  idle: { dot: 'bg-amber-400', label: 'Idle' },
+  offline: { dot: 'bg-muted-foreground/40', label: 'Offline' },
+};
+
+const describePresence = (user: ConnectedUser) => {
+  const { label } = STATUS_STYLES[user.status];
+  if (user.status === 'online' || !user.lastSeenAt) return label;
+  return `${label}, last seen ${formatDistanceToNow(user.lastSeenAt, { addSuffix: true })}`;
+};
+
+// Select value for using this device as a full editor
+const EDITOR_ROLE = 'editor';
+
 const ConnectionInterface: React.FC<ConnectionInterfaceProps> = ({
   sessionId,
+  userId,
   userName,
-  connectedUsers,
+  roster,
+  isSessionOwner = false,
+  sessionLink = '',
+  initialInvite = null,
   onCreateSession,
   onJoinSession,
+  onRotatePassphrase,
+  onCreateInvite,
   onChangeUserName,
+  onPairWith,
 }) => {
-  const [joinSessionId, setJoinSessionId] = useState('');
-  const [isJoining, setIsJoining] = useState(false);
+  const [joinSessionId, setJoinSessionId] = useState(initialInvite?.sessionId ?? '');
+  const [joinSecret, setJoinSecret] = useState(initialInvite?.secret ?? '');
+  // From an invite link that lets us in without the passphrase
+  const [joinInviteToken, setJoinInviteToken] = useState(initialInvite?.inviteToken ?? '');
+  const [isJoining, setIsJoining] = useState(!!initialInvite);
   const [newUserName, setNewUserName] = useState(userName);
-  const [secretKey, setSecretKey] = useState('');
-  const [showSecretKeyInput, setShowSecretKeyInput] = useState(!sessionId);
-  
-  const CORRECT_SECRET_KEY = 'Ravi560@';
-
-  const validateSecretKey = () => {
-    if (secretKey !== CORRECT_SECRET_KEY) {
-      toast.error('Invalid secret key. Access denied.');
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const validatePassphrase = (value: string) => {
+    if (value.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
       return false;
     }
     return true;
   };
 
-  const handleCreateSession = () => {
-    if (!validateSecretKey()) return;
+  const handleCreateSession = async () => {
+    if (!validatePassphrase(passphrase)) return;
     
-    onCreateSession();
-    setShowSecretKeyInput(false);
-    toast.success('New session created!');
+    setIsBusy(true);
+    await onCreateSession(passphrase);
+    setIsBusy(false);
+    setPassphrase('');
   };
 
-  const handleJoinSession = () => {
-    if (!validateSecretKey()) return;
-    
+  const handleJoinSession = async () => {
     if (!joinSessionId.trim()) {
       toast.error('Please enter a session ID');
       return;
     }
-    onJoinSession(joinSessionId);
-    setIsJoining(false);
-    setShowSecretKeyInput(false);
+    if (!passphrase && !joinInviteToken) {
+      toast.error('Please enter the session passphrase');
+      return;
+    }
+    
+    setIsBusy(true);
+    const joined = await onJoinSession(
+      joinSessionId.trim(),
+      passphrase ? { passphrase } : { inviteToken: joinInviteToken },
+      joinSecret.trim()
+    );
+    setIsBusy(false);
+    if (joined) {
+      setIsJoining(false);
+      setPassphrase('');
+    }
+  };
+
+  const handleRotatePassphrase = async () => {
+    if (!onRotatePassphrase || !validatePassphrase(newPassphrase)) return;
+    
+    setIsBusy(true);
+    const rotated = await onRotatePassphrase(newPassphrase);
+    setIsBusy(false);
+    if (rotated) {
+      setNewPassphrase('');
+    }
   };
 
   const handleCopySessionId = () => {
@@ -64,6 +141,19 @@ const ConnectionInterface: React.FC<ConnectionInterfaceProps> = ({
     toast.success('Session ID copied to clipboard');
   };
 
+  // Pasting a whole invite link fills in the session ID, the key and any invite token
+  const handleJoinSessionIdChange = (value: string) => {
+    const invite = parseSessionLink(value);
+    if (invite) {
+      setJoinSessionId(invite.sessionId);
+      setJoinSecret(invite.secret);
+      setJoinInviteToken(invite.inviteToken ?? '');
+    } else {
+      setJoinSessionId(value);
+      setJoinInviteToken('');
+    }
+  };
+
   const handleUserNameChange = () => {
     if (newUserName.trim()) {
       onChangeUserName(newUserName);
@@ -71,7 +161,15 @@ const ConnectionInterface: React.FC<ConnectionInterfaceProps> = ({
     }
   };
 
-  const userCount = Object.keys(connectedUsers).length;
+  // Online first, then idle, then offline
+  const participants = Object.entries(roster).sort(([, a], [, b]) =>
+    Object.keys(STATUS_STYLES).indexOf(a.status) - Object.keys(STATUS_STYLES).indexOf(b.status)
+  );
+  const userCount = participants.filter(([, user]) => user.status !== 'offline').length;
+  // Others here who could take this device's dictation; a microphone can't feed another microphone
+  const displayCandidates = participants.filter(([uid, user]) =>
+    uid !== userId && user.status !== 'offline' && user.role !== 'capture'
+  );
 
   return (
     <Card className="w-full max-w-md mx-auto shadow-sm">
@@ -85,20 +183,23 @@ const ConnectionInterface: React.FC<ConnectionInterfaceProps> = ({
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        {/* Secret key input */}
-        {showSecretKeyInput && (
+        {/* Session passphrase input */}
+        {!sessionId && (
           <div className="space-y-2 animate-fade-in">
-            <label htmlFor="secretKey" className="text-sm font-medium flex items-center gap-1">
+            <label htmlFor="passphrase" className="text-sm font-medium flex items-center gap-1">
               <Key className="h-3.5 w-3.5" />
-              Secret Key (Required)
+              Session Passphrase
             </label>
             <Input
-              id="secretKey"
+              id="passphrase"
               type="password"
-              value={secretKey}
-              onChange={(e) => setSecretKey(e.target.value)}
-              placeholder="Enter the secret key"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={isJoining
+                ? joinInviteToken ? "Not needed with this invite link" : "Passphrase for the session"
+                : "Choose a passphrase for a new session"}
               className="font-mono"
+              autoComplete="off"
             />
           </div>
         )}
@@ -124,7 +225,7 @@ const ConnectionInterface: React.FC<ConnectionInterfaceProps> = ({
               <div className="text-sm font-medium">Current Session</div>
               <div className="flex items-center text-xs text-muted-foreground">
                 <Users className="h-3.5 w-3.5 mr-1" />
-                {userCount} {userCount === 1 ? 'user' : 'users'}
+                {userCount} online
               </div>
             </div>
             <div className="flex space-x-2">
@@ -133,6 +234,17 @@ const ConnectionInterface: React.FC<ConnectionInterfaceProps> = ({
                 <Copy className="h-4 w-4" />
               </Button>
             </div>
+            {sessionLink && (
+              <InviteDialog
+                sessionLink={sessionLink}
+                onCreateInvite={isSessionOwner ? onCreateInvite : undefined}
+                pairWithId={onPairWith ? userId : undefined}
+              />
+            )}
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Lock className="h-3 w-3" />
+              End-to-end encrypted. The key is only in the invite link.
+            </p>
           </div>
         ) : (
           <div className="space-y-2">
@@ -140,7 +252,7 @@ const ConnectionInterface: React.FC<ConnectionInterfaceProps> = ({
               Create a new session or join an existing one to start collaborating.
             </p>
             <div className="flex justify-between">
-              <Button onClick={handleCreateSession}>
+              <Button onClick={handleCreateSession} disabled={isBusy}>
                 Create New Session
               </Button>
               <Button variant="outline" onClick={() => setIsJoining(true)}>
@@ -151,32 +263,122 @@ const ConnectionInterface: React.FC<ConnectionInterfaceProps> = ({
         )}
 
         {/* Join session form */}
-        {isJoining && (
+        {isJoining && !sessionId && (
           <div className="space-y-2 animate-fade-in">
             <label htmlFor="sessionId" className="text-sm font-medium">Session ID</label>
+            <Input 
+              id="sessionId" 
+              value={joinSessionId} 
+              onChange={(e) => handleJoinSessionIdChange(e.target.value)}
+              placeholder="Paste the session ID or invite link here"
+            />
+            <label htmlFor="joinSecret" className="text-sm font-medium">Encryption Key</label>
             <div className="flex space-x-2">
-              <Input 
-                id="sessionId" 
-                value={joinSessionId} 
-                onChange={(e) => setJoinSessionId(e.target.value)}
-                placeholder="Paste session ID here"
+              <Input
+                id="joinSecret"
+                type="password"
+                value={joinSecret}
+                onChange={(e) => setJoinSecret(e.target.value)}
+                placeholder="Filled in from the invite link"
+                className="font-mono"
+                autoComplete="off"
               />
-              <Button onClick={handleJoinSession}>Join</Button>
+              <Button onClick={handleJoinSession} disabled={isBusy}>Join</Button>
             </div>
           </div>
         )}
 
+        {/* Device role */}
+        {sessionId && onPairWith && displayCandidates.length > 0 && (
+          <div className="space-y-2">
+            <label htmlFor="deviceRole" className="text-sm font-medium">Use This Device As</label>
+            <Select
+              value={EDITOR_ROLE}
+              onValueChange={(value) => onPairWith(value === EDITOR_ROLE ? null : value)}
+            >
+              <SelectTrigger id="deviceRole" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EDITOR_ROLE}>Full editor</SelectItem>
+                {displayCandidates.map(([uid, user]) => (
+                  <SelectItem key={uid} value={uid}>
+                    Microphone for {user.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              As a microphone, this device only listens, and its dictation moves into the other participant's transcript.
+            </p>
+          </div>
+        )}
+
+        {/* Passphrase rotation, owner only */}
+        {sessionId && isSessionOwner && onRotatePassphrase && (
+          <div className="space-y-2">
+            <label htmlFor="newPassphrase" className="text-sm font-medium">Change Passphrase</label>
+            <div className="flex space-x-2">
+              <Input
+                id="newPassphrase"
+                type="password"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                placeholder="New passphrase"
+                className="font-mono"
+                autoComplete="off"
+              />
+              <Button onClick={handleRotatePassphrase} size="sm" variant="outline" disabled={isBusy}>
+                <RefreshCw className="h-3.5 w-3.5 mr-1" />
+                Rotate
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Everyone else is removed from the session and must rejoin with the new passphrase.
+              One-tap invite links stop working; the encryption key in invite links stays the same.
+            </p>
+          </div>
+        )}
+
         {/* Connected users */}
-        {userCount > 0 && (
+        {participants.length > 0 && (
           <div className="space-y-2">
-            <div className="text-sm font-medium">Connected Users</div>
+            <div className="text-sm font-medium">Participants</div>
             <div className="flex flex-wrap gap-2">
-              {Object.entries(connectedUsers).map(([uid, userData]) => (
+              {participants.map(([uid, userData]) => (
                 <div 
                   key={uid}
-                  className="text-xs px-3 py-1 rounded-full bg-muted flex items-center gap-1"
+                  className={cn(
+                    'text-xs px-3 py-1 rounded-full bg-muted flex items-center gap-1',
+                    userData.status === 'offline' && 'text-muted-foreground'
+                  )}
+                  title={describePresence(userData)}
                 >
+                  <span
+                    className={cn('w-2 h-2 rounded-full', STATUS_STYLES[userData.status].dot)}
+                    aria-label={STATUS_STYLES[userData.status].label}
+                  />
                   {userData.name}
+                  {userData.role !== 'peer' && (
+                    <span
+                      className="text-muted-foreground"
+                      title={userData.role === 'capture'
+                        ? `${DEVICE_ROLE_LABELS.capture} for ${roster[userData.pairedWith ?? '']?.name ?? 'another participant'}`
+                        : `${DEVICE_ROLE_LABELS.display} with a paired microphone`}
+                    >
+                      {userData.role === 'capture'
+                        ? <Mic className="h-3 w-3" aria-label={DEVICE_ROLE_LABELS.capture} />
+                        : <Monitor className="h-3 w-3" aria-label={DEVICE_ROLE_LABELS.display} />}
+                    </span>
+                  )}
+                  {userData.language && (
+                    <span
+                      className="text-[10px] font-semibold text-muted-foreground"
+                      title={getLanguageLabel(userData.language)}
+                    >
+                      {getLanguageShortCode(userData.language)}
+                    </span>
+                  )}
                   {userData.isRecording && 
                     <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"/>
                   }
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Loader2, RefreshCw, Wifi, WifiLow, WifiOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ConnectionState } from '@/lib/connection';
+
+interface ConnectionStatusIndicatorProps {
+  state: ConnectionState;
+  sessionId: string;
+  // Rejoin now instead of waiting for the next scheduled attempt
+  onReconnect?: () => void;
+}
+
+const ConnectionStatusIndicator: React.FC<ConnectionStatusIndicatorProps> = ({
+  state,
+  sessionId,
+  onReconnect,
+}) => {
+  const shortId = `${sessionId.substring(0, 6)}...`;
+
+  const { icon: Icon, label, className } = {
+    connecting: {
+      icon: Loader2,
+      label: `Connecting to session: ${shortId}`,
+      className: 'bg-secondary text-secondary-foreground',
+    },
+    connected: {
+      icon: Wifi,
+      label: `Connected to session: ${shortId}`,
+      className: 'bg-primary text-primary-foreground',
+    },
+    degraded: {
+      icon: WifiLow,
+      label: 'Connection unstable, some changes are waiting to be sent',
+      className: 'bg-amber-500 text-white',
+    },
+    reconnecting: {
+      icon: Loader2,
+      label: 'Connection lost, reconnecting',
+      className: 'bg-amber-500 text-white',
+    },
+    offline: {
+      icon: WifiOff,
+      label: navigator.onLine ? 'Disconnected from the session' : 'Offline, will reconnect when the network is back',
+      className: 'bg-destructive text-destructive-foreground',
+    },
+  }[state];
+
+  const canRetry = onReconnect && (state === 'reconnecting' || state === 'offline') && navigator.onLine;
+
+  return (
+    <div
+      className={cn('text-xs px-3 py-1 rounded-full flex items-center gap-1', className)}
+      role="status"
+      aria-live="polite"
+    >
+      <Icon className={cn('h-3 w-3', (state === 'connecting' || state === 'reconnecting') && 'animate-spin')} />
+      {label}
+      {canRetry && (
+        <button
+          type="button"
+          onClick={onReconnect}
+          className="ml-1 flex items-center gap-0.5 underline underline-offset-2"
+        >
+          <RefreshCw className="h-3 w-3" />
+          Retry now
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionStatusIndicator;
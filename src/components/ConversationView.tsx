@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { format } from 'date-fns';
+import { MessagesSquare, ShieldAlert } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import type { ConnectedUser, RejectedMessage } from '@/hooks/useRealTimeSharing';
+import { joinTranscript, TranscriptSegment } from '@/lib/transcript';
+import { getSpeakerColor } from '@/lib/speakers';
+import { cn } from '@/lib/utils';
+import { formatDuration } from '@/lib/transcriptLibrary';
+
+interface ConversationViewProps {
+  currentUserId: string;
+  localSegments: TranscriptSegment[];
+  remoteSegments: {[key: string]: TranscriptSegment[]};
+  connectedUsers: {[key: string]: ConnectedUser};
+  // Pending words from remote speakers, shown under the conversation
+  interimTexts?: {[key: string]: string};
+  // Broadcasts that failed decryption, shown in the timeline where they arrived
+  rejectedMessages?: RejectedMessage[];
+  // Names of everyone who has spoken in the session, including those who left
+  participantNames?: {[key: string]: string};
+  // Segments with recorded audio become clickable to play it back
+  onSegmentClick?: (segment: TranscriptSegment) => void;
+  playingSegmentId?: string | null;
+}
+
+// Consecutive segments from the same speaker are grouped under one label
+interface Turn {
+  kind: 'turn';
+  speakerId: string;
+  startTime: number;
+  segments: TranscriptSegment[];
+}
+
+interface RejectedEntry {
+  kind: 'rejected';
+  startTime: number;
+  message: RejectedMessage;
+}
+
+const ConversationView: React.FC<ConversationViewProps> = ({
+  currentUserId,
+  localSegments,
+  remoteSegments,
+  connectedUsers,
+  interimTexts = {},
+  rejectedMessages = [],
+  participantNames = {},
+  onSegmentClick,
+  playingSegmentId = null,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const turns = useMemo(() => {
+    const merged = [
+      ...localSegments.map(segment => ({ ...segment, speakerId: currentUserId })),
+      ...Object.entries(remoteSegments).flatMap(([speakerId, segments]) =>
+        segments.map(segment => ({ ...segment, speakerId }))
+      ),
+    ]
+      .filter(segment => segment.text.trim())
+      .sort((a, b) => a.startTime - b.startTime);
+
+    return merged.reduce<Turn[]>((result, segment) => {
+      const previous = result[result.length - 1];
+      if (previous && previous.speakerId === segment.speakerId) {
+        previous.segments.push(segment);
+      } else {
+        result.push({ kind: 'turn', speakerId: segment.speakerId, startTime: segment.startTime, segments: [segment] });
+      }
+      return result;
+    }, []);
+  }, [currentUserId, localSegments, remoteSegments]);
+
+  const entries = useMemo(() => [
+    ...turns,
+    ...rejectedMessages.map<RejectedEntry>(message => ({ kind: 'rejected', startTime: message.timestamp, message })),
+  ].sort((a, b) => a.startTime - b.startTime), [turns, rejectedMessages]);
+
+  const pending = Object.entries(interimTexts).filter(([, text]) => text);
+
+  // Keep the newest turn in view
+  useEffect(() => {
+    if (containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [entries, interimTexts]);
+
+  const getSpeakerName = (speakerId: string) => {
+    if (speakerId === currentUserId) return 'You';
+    return connectedUsers[speakerId]?.name ?? participantNames[speakerId] ?? 'Former participant';
+  };
+
+  // Lay out a turn with the same joining rules as the flat transcript, one span per segment
+  const renderSegments = (segments: TranscriptSegment[]) => {
+    let text = '';
+    return segments.map(segment => {
+      const joined = joinTranscript(text, segment.text);
+      const start = text ? joined.length - segment.text.length : 0;
+      const separator = joined.slice(text.length, start);
+      const content = joined.slice(start);
+      text = joined;
+
+      if (!segment.audio || !onSegmentClick) {
+        return <React.Fragment key={segment.id}>{separator}{content}</React.Fragment>;
+      }
+      return (
+        <React.Fragment key={segment.id}>
+          {separator}
+          <span
+            role="button"
+            tabIndex={0}
+            title={`Play this sentence (${formatDuration(segment.endTime - segment.startTime)})`}
+            className={cn(
+              'cursor-pointer rounded-sm hover:bg-muted transition-colors',
+              segment.id === playingSegmentId && 'bg-primary/15'
+            )}
+            onClick={() => onSegmentClick(segment)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                onSegmentClick(segment);
+              }
+            }}
+          >
+            {content}
+          </span>
+        </React.Fragment>
+      );
+    });
+  };
+
+  if (entries.length === 0 && pending.length === 0) return null;
+
+  return (
+    <div className="relative w-full animate-fade-up">
+      <Card className="border shadow-sm bg-card/50">
+        <CardContent className="p-6">
+          <div className="text-sm font-medium flex items-center gap-2 mb-3">
+            <MessagesSquare className="h-4 w-4" />
+            Conversation
+          </div>
+          <div
+            ref={containerRef}
+            className="max-h-[400px] overflow-y-auto space-y-3"
+          >
+            {entries.map(turn => turn.kind === 'rejected' ? (
+              <div
+                key={turn.message.id}
+                className="flex items-center gap-2 text-xs text-destructive border-l-2 border-destructive pl-3"
+              >
+                <ShieldAlert className="h-3.5 w-3.5 shrink-0" />
+                <span>
+                  {turn.message.senderId ? `${getSpeakerName(turn.message.senderId)}: ` : ''}
+                  {turn.message.reason === 'tampered'
+                    ? 'message could not be decrypted (tampered or wrong key)'
+                    : 'unencrypted message rejected'}
+                </span>
+                <span className="text-muted-foreground">
+                  {format(new Date(turn.startTime), 'HH:mm:ss')}
+                </span>
+              </div>
+            ) : (
+              <div key={`${turn.speakerId}-${turn.segments[0].id}`} className="space-y-0.5">
+                <div className="flex items-baseline gap-2 text-xs">
+                  <span className="font-semibold" style={{ color: getSpeakerColor(turn.speakerId) }}>
+                    {getSpeakerName(turn.speakerId)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {format(new Date(turn.startTime), 'HH:mm:ss')}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatDuration(Math.max(...turn.segments.map(segment => segment.endTime)) - turn.startTime)}
+                  </span>
+                </div>
+                <p
+                  className="leading-relaxed whitespace-pre-wrap border-l-2 pl-3"
+                  style={{ borderColor: getSpeakerColor(turn.speakerId) }}
+                >
+                  {renderSegments(turn.segments)}
+                </p>
+              </div>
+            ))}
+
+            {pending.map(([speakerId, text]) => (
+              <div key={`pending-${speakerId}`} className="text-sm italic text-muted-foreground">
+                <span className="font-semibold not-italic" style={{ color: getSpeakerColor(speakerId) }}>
+                  {getSpeakerName(speakerId)}:
+                </span>{' '}
+                {text}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ConversationView;
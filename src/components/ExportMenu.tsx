@@ -0,0 +1,69 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { downloadTranscript, ExportableTranscript, exportFormats, ExportFormatId } from '@/lib/export';
+
+interface ExportMenuProps {
+  // Called when a format is picked, so the transcript is built from the latest state
+  getTranscript: () => ExportableTranscript | null;
+  disabled?: boolean;
+  size?: 'default' | 'sm';
+  // Lets a keyboard shortcut open the menu
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  getTranscript,
+  disabled = false,
+  size = 'default',
+  open,
+  onOpenChange,
+}) => {
+  const handleExport = (formatId: ExportFormatId) => {
+    const transcript = getTranscript();
+    if (!transcript || transcript.segments.length === 0) {
+      toast.info("Nothing to export yet");
+      return;
+    }
+
+    try {
+      downloadTranscript(transcript, formatId);
+    } catch (error) {
+      console.error('Error exporting transcript:', error);
+      toast.error('Could not export the transcript');
+    }
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={onOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} className="text-sm" disabled={disabled}>
+          <Download className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {exportFormats.map(exportFormat => (
+          <DropdownMenuItem key={exportFormat.id} onSelect={() => handleExport(exportFormat.id)}>
+            {exportFormat.label}
+            <span className="ml-auto pl-4 text-xs text-muted-foreground">.{exportFormat.extension}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
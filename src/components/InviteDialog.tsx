@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, QrCode as QrCodeIcon, Ticket } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import QrCode from '@/components/QrCode';
+import { addPairingToLink } from '@/lib/sessionCrypto';
+
+export interface CreatedInvite {
+  link: string;
+  expiresAt: number | null;
+}
+
+interface InviteDialogProps {
+  // Link that still asks for the passphrase
+  sessionLink: string;
+  // Only the owner can create links that skip the passphrase
+  onCreateInvite?: (expiresInMinutes?: number) => Promise<CreatedInvite | null>;
+  // Lets the link open as a microphone for this participant
+  pairWithId?: string;
+}
+
+const NEVER_EXPIRES = 'never';
+
+const EXPIRY_OPTIONS = [
+  { value: '15', label: 'Expires in 15 minutes' },
+  { value: '60', label: 'Expires in 1 hour' },
+  { value: '1440', label: 'Expires in 1 day' },
+  { value: NEVER_EXPIRES, label: 'Never expires' },
+];
+
+const InviteDialog: React.FC<InviteDialogProps> = ({ sessionLink, onCreateInvite, pairWithId }) => {
+  const [expiry, setExpiry] = useState('15');
+  const [invite, setInvite] = useState<CreatedInvite | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [asMicrophone, setAsMicrophone] = useState(false);
+
+  const baseLink = invite?.link ?? sessionLink;
+  const link = asMicrophone && pairWithId ? addPairingToLink(baseLink, pairWithId) : baseLink;
+
+  const handleCreateInvite = async () => {
+    if (!onCreateInvite) return;
+
+    setIsCreating(true);
+    const created = await onCreateInvite(expiry === NEVER_EXPIRES ? undefined : Number(expiry));
+    setIsCreating(false);
+    if (created) setInvite(created);
+  };
+
+  // Every opening starts from the plain link
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    setInvite(null);
+    setAsMicrophone(false);
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(link);
+    toast.success('Invite link copied. Share it only with participants.');
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <QrCodeIcon className="h-3.5 w-3.5 mr-1" />
+          Invite or pair a phone
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Invite to this session</DialogTitle>
+          <DialogDescription>
+            Scan the code with a phone camera, or copy the link. It carries the encryption key,
+            so share it only with participants.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-3">
+          <QrCode value={link} size={220} className="border" />
+          <p className="text-xs text-muted-foreground text-center">
+            {invite
+              ? invite.expiresAt
+                ? `Joins without the passphrase. Expires ${formatDistanceToNow(invite.expiresAt, { addSuffix: true })}.`
+                : 'Joins without the passphrase until the passphrase is changed.'
+              : 'The passphrase is still needed to join.'}
+          </p>
+          {pairWithId && (
+            <div className="flex items-center justify-between gap-4 w-full">
+              <label htmlFor="asMicrophone" className="text-sm">
+                <span className="font-medium">Use as my microphone</span>
+                <span className="block text-xs text-muted-foreground">
+                  The device that opens the link only listens, and what it hears goes into your transcript.
+                </span>
+              </label>
+              <Switch id="asMicrophone" checked={asMicrophone} onCheckedChange={setAsMicrophone} />
+            </div>
+          )}
+          <Button variant="outline" size="sm" className="w-full" onClick={handleCopy}>
+            <Copy className="h-3.5 w-3.5 mr-1" />
+            Copy link
+          </Button>
+        </div>
+
+        {onCreateInvite && !invite && (
+          <div className="space-y-2 border-t pt-4">
+            <div className="text-sm font-medium">One-tap invite</div>
+            <p className="text-xs text-muted-foreground">
+              Create a link that joins without the passphrase, for example to pair your own phone.
+            </p>
+            <div className="flex gap-2">
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="h-8 text-xs" aria-label="Invite expires after">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" className="h-8" onClick={handleCreateInvite} disabled={isCreating}>
+                <Ticket className="h-3.5 w-3.5 mr-1" />
+                Create
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InviteDialog;
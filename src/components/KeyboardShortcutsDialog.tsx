@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Keyboard } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  comboFromEvent,
+  DEFAULT_SHORTCUTS,
+  describeCombo,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  ShortcutBindings,
+} from '@/lib/shortcuts';
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: ShortcutBindings;
+  onBindingsChange: (bindings: ShortcutBindings) => void;
+  pushToTalk: boolean;
+  onPushToTalkChange: (enabled: boolean) => void;
+}
+
+const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({
+  open,
+  onOpenChange,
+  bindings,
+  onBindingsChange,
+  pushToTalk,
+  onPushToTalkChange,
+}) => {
+  // The action waiting for a new key combination, if any
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+
+  const handleCapture = (action: ShortcutAction, e: React.KeyboardEvent) => {
+    // Keep the keys from reaching the global shortcuts or closing the dialog
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      setCapturing(null);
+      return;
+    }
+    const combo = comboFromEvent(e.nativeEvent);
+    if (!combo) return;
+
+    const conflict = SHORTCUT_ACTIONS.find(item => item.action !== action && bindings[item.action] === combo);
+    if (conflict) {
+      toast.error(`${describeCombo(combo)} is already used for "${conflict.label}"`);
+      return;
+    }
+
+    onBindingsChange({ ...bindings, [action]: combo });
+    setCapturing(null);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setCapturing(null);
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs gap-1">
+          <Keyboard className="h-3.5 w-3.5" />
+          Shortcuts
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Click a shortcut and press the keys to change it. Shortcuts without Ctrl, Alt or Meta
+            are ignored while you type in a text field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <label htmlFor="pushToTalk" className="text-sm">
+            <span className="font-medium">Push-to-talk</span>
+            <span className="block text-xs text-muted-foreground">
+              Record only while the key or the microphone button is held. Keeps everyone's
+              microphones from picking each other up in a shared session.
+            </span>
+          </label>
+          <Switch id="pushToTalk" checked={pushToTalk} onCheckedChange={onPushToTalkChange} />
+        </div>
+
+        <div className="space-y-1 text-sm">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <div
+              key={action}
+              className="flex items-center justify-between gap-2 py-1 border-b last:border-b-0"
+            >
+              <span className={action === 'pushToTalk' && !pushToTalk ? 'text-muted-foreground' : undefined}>
+                {label}
+              </span>
+              <Button
+                variant={capturing === action ? 'secondary' : 'outline'}
+                size="sm"
+                className="h-7 min-w-[96px] font-mono text-xs"
+                onClick={() => setCapturing(action)}
+                onKeyDown={(e) => capturing === action && handleCapture(action, e)}
+                onBlur={() => capturing === action && setCapturing(null)}
+              >
+                {capturing === action ? 'Press keys…' : describeCombo(bindings[action])}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={() => onBindingsChange(DEFAULT_SHORTCUTS)}>
+            Reset to defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyboardShortcutsDialog;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DICTATION_LANGUAGES } from '@/lib/languages';
+
+interface LanguageSelectorProps {
+  language: string;
+  onChange: (language: string) => void;
+}
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ language, onChange }) => {
+  return (
+    <Select value={language} onValueChange={onChange}>
+      <SelectTrigger className="w-[200px] h-8 text-xs" aria-label="Dictation language">
+        <Languages className="h-3.5 w-3.5 mr-1 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {DICTATION_LANGUAGES.map(({ code, label }) => (
+          <SelectItem key={code} value={code} className="text-xs">
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LanguageSelector;
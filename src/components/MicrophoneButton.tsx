@@ -1,38 +1,94 @@
-
 import React from 'react';
-import { Mic } from 'lucide-react';
+import { Mic, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface MicrophoneButtonProps {
   isRecording: boolean;
+  isReconnecting?: boolean;
   onClick: () => void;
+  // In push-to-talk mode the button records while held instead of toggling
+  pushToTalk?: boolean;
+  onPressStart?: () => void;
+  onPressEnd?: () => void;
+  // Shown under the button, e.g. who else is talking
+  hint?: string;
 }
 
-const MicrophoneButton: React.FC<MicrophoneButtonProps> = ({ 
-  isRecording, 
-  onClick 
+const HOLD_KEYS = new Set([' ', 'Enter']);
+
+const MicrophoneButton: React.FC<MicrophoneButtonProps> = ({
+  isRecording,
+  isReconnecting = false,
+  onClick,
+  pushToTalk = false,
+  onPressStart,
+  onPressEnd,
+  hint
 }) => {
+  const label = pushToTalk
+    ? "Hold to talk"
+    : isReconnecting
+      ? "Reconnecting, click to stop recording"
+      : isRecording ? "Stop recording" : "Start recording";
+
+  const holdHandlers: React.ButtonHTMLAttributes<HTMLButtonElement> = pushToTalk ? {
+    onPointerDown: (e) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      onPressStart?.();
+    },
+    onPointerUp: () => onPressEnd?.(),
+    onPointerCancel: () => onPressEnd?.(),
+    onKeyDown: (e) => {
+      if (!HOLD_KEYS.has(e.key)) return;
+      e.preventDefault();
+      if (!e.repeat) onPressStart?.();
+    },
+    onKeyUp: (e) => {
+      if (HOLD_KEYS.has(e.key)) onPressEnd?.();
+    },
+    onBlur: () => onPressEnd?.(),
+  } : { onClick };
+
   return (
-    <button
-      className={cn(
-        "relative w-20 h-20 rounded-full flex items-center justify-center transition-all duration-300 ease-in-out",
-        isRecording 
-          ? "bg-[hsl(var(--recording-color))]" 
-          : "bg-secondary hover:bg-secondary/80"
+    <div className="flex flex-col items-center gap-2">
+      <button
+        className={cn(
+          "relative w-20 h-20 rounded-full flex items-center justify-center transition-all duration-300 ease-in-out",
+          isReconnecting
+            ? "bg-amber-500"
+            : isRecording
+              ? "bg-[hsl(var(--recording-color))]"
+              : "bg-secondary hover:bg-secondary/80"
+        )}
+        {...holdHandlers}
+        aria-label={label}
+        aria-pressed={pushToTalk ? isRecording : undefined}
+      >
+        {isRecording && !isReconnecting && (
+          <div className="pulse-ring bg-[hsl(var(--recording-color))] opacity-75"></div>
+        )}
+        {isReconnecting ? (
+          <Loader2 className="w-8 h-8 text-white animate-spin" />
+        ) : (
+          <Mic
+            className={cn(
+              "w-8 h-8 transition-colors duration-300",
+              isRecording ? "text-white" : "text-foreground"
+            )}
+          />
+        )}
+      </button>
+      {isReconnecting && (
+        <span className="text-xs text-muted-foreground animate-fade-in" aria-live="polite">
+          Reconnecting...
+        </span>
       )}
-      onClick={onClick}
-      aria-label={isRecording ? "Stop recording" : "Start recording"}
-    >
-      {isRecording && (
-        <div className="pulse-ring bg-[hsl(var(--recording-color))] opacity-75"></div>
+      {!isReconnecting && (hint || pushToTalk) && (
+        <span className="text-xs text-muted-foreground animate-fade-in" aria-live="polite">
+          {hint ?? 'Hold to talk'}
+        </span>
       )}
-      <Mic 
-        className={cn(
-          "w-8 h-8 transition-colors duration-300",
-          isRecording ? "text-white" : "text-foreground"
-        )} 
-      />
-    </button>
+    </div>
   );
 };
 
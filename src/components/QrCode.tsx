@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '@/lib/qrCode';
+import { cn } from '@/lib/utils';
+
+interface QrCodeProps {
+  value: string;
+  // Rendered width and height in pixels
+  size?: number;
+  className?: string;
+}
+
+// Light modules around the code that scanners need to find it
+const QUIET_ZONE = 4;
+
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 200, className }) => {
+  const matrix = useMemo(() => {
+    try {
+      return encodeQrCode(value);
+    } catch (error) {
+      console.error('Error generating QR code:', error);
+      return null;
+    }
+  }, [value]);
+
+  if (!matrix) {
+    return <p className="text-xs text-muted-foreground">This link is too long for a QR code.</p>;
+  }
+
+  // One path for all dark modules keeps the SVG small
+  const path = matrix.modules
+    .flatMap((row, y) => row.map((dark, x) => (
+      dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : ''
+    )))
+    .join('');
+  const extent = matrix.size + QUIET_ZONE * 2;
+
+  return (
+    <svg
+      viewBox={`0 0 ${extent} ${extent}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      className={cn('rounded-md', className)}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={extent} height={extent} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCode;
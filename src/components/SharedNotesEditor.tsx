@@ -0,0 +1,112 @@
+import React, { useRef } from 'react';
+import { NotebookPen } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { ConnectedUser } from '@/hooks/useRealTimeSharing';
+import { getSpeakerColor } from '@/lib/speakers';
+
+interface SharedNotesEditorProps {
+  text: string;
+  remoteCursors: {[key: string]: number};
+  connectedUsers: {[key: string]: ConnectedUser};
+  onTextChange: (newText: string, cursorPosition: number) => void;
+  onCursorChange: (cursorPosition: number) => void;
+  // Appends the local dictation draft to the notes
+  onInsertDraft?: () => void;
+}
+
+// Shared styling so the cursor overlay lines up with the textarea text exactly
+const EDITOR_TEXT_CLASSES = "w-full min-h-[160px] p-3 text-base leading-relaxed whitespace-pre-wrap break-words font-[inherit]";
+
+const SharedNotesEditor: React.FC<SharedNotesEditorProps> = ({
+  text,
+  remoteCursors,
+  connectedUsers,
+  onTextChange,
+  onCursorChange,
+  onInsertDraft,
+}) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onTextChange(e.target.value, e.target.selectionStart);
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    onCursorChange(e.currentTarget.selectionStart);
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (overlayRef.current) {
+      overlayRef.current.scrollTop = e.currentTarget.scrollTop;
+    }
+  };
+
+  // Split the text at every remote caret so markers can be placed inline
+  const cursors = Object.entries(remoteCursors)
+    .filter(([cursorUserId]) => connectedUsers[cursorUserId])
+    .sort(([, a], [, b]) => a - b);
+
+  const overlay: React.ReactNode[] = [];
+  let offset = 0;
+  cursors.forEach(([cursorUserId, position]) => {
+    const clamped = Math.min(position, text.length);
+    overlay.push(text.slice(offset, clamped));
+    overlay.push(
+      <span key={cursorUserId} className="relative">
+        <span
+          className="absolute top-0 -ml-px h-[1.4em] w-0.5"
+          style={{ backgroundColor: getSpeakerColor(cursorUserId) }}
+        />
+        <span
+          className="absolute -top-4 left-0 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap"
+          style={{ backgroundColor: getSpeakerColor(cursorUserId) }}
+        >
+          {connectedUsers[cursorUserId].name}
+        </span>
+      </span>
+    );
+    offset = clamped;
+  });
+  overlay.push(text.slice(offset));
+
+  return (
+    <div className="relative w-full animate-fade-up">
+      <Card className="border shadow-sm bg-card/50">
+        <CardContent className="p-6 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium flex items-center gap-2">
+              <NotebookPen className="h-4 w-4" />
+              Shared notes
+            </div>
+            {onInsertDraft && (
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onInsertDraft}>
+                Add my transcript
+              </Button>
+            )}
+          </div>
+
+          <div className="relative rounded-md border bg-background">
+            <div
+              ref={overlayRef}
+              aria-hidden
+              className={`${EDITOR_TEXT_CLASSES} absolute inset-0 overflow-hidden pointer-events-none text-transparent`}
+            >
+              {overlay}
+            </div>
+            <textarea
+              className={`${EDITOR_TEXT_CLASSES} relative block bg-transparent resize-none focus:outline-none`}
+              value={text}
+              onChange={handleChange}
+              onSelect={handleSelect}
+              onScroll={handleScroll}
+              placeholder="Write notes together with everyone in the session..."
+            />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SharedNotesEditor;
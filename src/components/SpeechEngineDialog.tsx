@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Server } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { resolveSpeechEngine, speechEngineFactories, SpeechEngineId } from '@/lib/speech';
+
+interface SpeechEngineDialogProps {
+  engineId: SpeechEngineId;
+  serverUrl: string;
+  onEngineChange: (engineId: SpeechEngineId) => void;
+  onServerUrlChange: (serverUrl: string) => void;
+}
+
+const isWebSocketUrl = (value: string) => {
+  try {
+    return ['ws:', 'wss:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const SpeechEngineDialog: React.FC<SpeechEngineDialogProps> = ({
+  engineId,
+  serverUrl,
+  onEngineChange,
+  onServerUrlChange,
+}) => {
+  const [draftUrl, setDraftUrl] = useState(serverUrl);
+
+  const draftInvalid = !!draftUrl.trim() && !isWebSocketUrl(draftUrl.trim());
+  // What actually runs: the choice if it works here, otherwise the first engine that does
+  const activeEngine = resolveSpeechEngine(engineId, { lang: '', serverUrl });
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setDraftUrl(serverUrl);
+  };
+
+  const handleSaveUrl = () => {
+    const url = draftUrl.trim();
+    if (url === serverUrl || (url && !isWebSocketUrl(url))) return;
+    onServerUrlChange(url);
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs gap-1">
+          <Server className="h-3.5 w-3.5" />
+          Speech engine
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Speech engine</DialogTitle>
+          <DialogDescription>
+            Browsers without built-in recognition, like Firefox, can stream the microphone to a
+            transcription server instead.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label htmlFor="speechEngine" className="text-sm font-medium">Preferred engine</label>
+          <Select value={engineId} onValueChange={(value) => onEngineChange(value as SpeechEngineId)}>
+            <SelectTrigger id="speechEngine">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {speechEngineFactories.map(factory => (
+                <SelectItem key={factory.id} value={factory.id}>
+                  {factory.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground" role="status">
+            {activeEngine
+              ? activeEngine.id === engineId
+                ? `Using ${activeEngine.label}.`
+                : `Not available here, using ${activeEngine.label} instead.`
+              : 'No engine works in this browser yet. Set a server address below.'}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="speechServerUrl" className="text-sm font-medium">Server address</label>
+          <div className="flex space-x-2">
+            <Input
+              id="speechServerUrl"
+              value={draftUrl}
+              onChange={(e) => setDraftUrl(e.target.value)}
+              onBlur={handleSaveUrl}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSaveUrl(); }}
+              placeholder="wss://speech.example.com/stream"
+              className="font-mono text-sm"
+              aria-invalid={draftInvalid}
+            />
+            <Button size="sm" onClick={handleSaveUrl} disabled={draftInvalid}>Save</Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {draftInvalid
+              ? 'Enter a ws:// or wss:// address.'
+              : 'Used by the streaming server engine. Audio is sent to this server while you dictate.'}
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SpeechEngineDialog;
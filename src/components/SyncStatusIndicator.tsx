@@ -0,0 +1,60 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Cloud, CloudOff, HardDrive, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SyncStatus } from '@/hooks/useRealTimeSharing';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  queuedCount?: number;
+  // When the draft was last written to this device
+  draftSavedAt?: number | null;
+}
+
+const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
+  status,
+  queuedCount = 0,
+  draftSavedAt = null,
+}) => {
+  const queued = queuedCount > 0
+    ? ` (${queuedCount} ${queuedCount === 1 ? 'change' : 'changes'} queued)`
+    : '';
+
+  const { icon: Icon, label, className } = {
+    local: {
+      icon: HardDrive,
+      label: draftSavedAt
+        ? `Saved on this device ${formatDistanceToNow(draftSavedAt, { addSuffix: true })}`
+        : 'Saved on this device',
+      className: 'bg-muted text-muted-foreground',
+    },
+    offline: {
+      icon: CloudOff,
+      label: `Offline, changes will sync when you reconnect${queued}`,
+      className: 'bg-amber-500 text-white',
+    },
+    pending: {
+      icon: Loader2,
+      label: `Syncing${queued}`,
+      className: 'bg-secondary text-secondary-foreground',
+    },
+    synced: {
+      icon: Cloud,
+      label: 'All changes synced',
+      className: 'bg-muted text-muted-foreground',
+    },
+  }[status];
+
+  return (
+    <div
+      className={cn('text-xs px-3 py-1 rounded-full flex items-center gap-1', className)}
+      role="status"
+      aria-live="polite"
+    >
+      <Icon className={cn('h-3 w-3', status === 'pending' && 'animate-spin')} />
+      {label}
+    </div>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { ArrowRight, Plus, Trash2, WandSparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import type { TextReplacement } from '@/lib/postProcessing';
+
+interface TextCleanupDialogProps {
+  autoPunctuation: boolean;
+  replacements: TextReplacement[];
+  onAutoPunctuationChange: (enabled: boolean) => void;
+  onReplacementsChange: (replacements: TextReplacement[]) => void;
+}
+
+const TextCleanupDialog: React.FC<TextCleanupDialogProps> = ({
+  autoPunctuation,
+  replacements,
+  onAutoPunctuationChange,
+  onReplacementsChange,
+}) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const handleAddReplacement = () => {
+    const trimmedFrom = from.trim().toLowerCase();
+    if (!trimmedFrom) {
+      toast.error('Enter the words to replace');
+      return;
+    }
+    if (replacements.some(replacement => replacement.from.toLowerCase() === trimmedFrom)) {
+      toast.error(`"${trimmedFrom}" already has a replacement`);
+      return;
+    }
+
+    onReplacementsChange([
+      ...replacements,
+      { id: `replacement-${Date.now()}`, from: trimmedFrom, to: to.trim() },
+    ]);
+    setFrom('');
+    setTo('');
+  };
+
+  const handleRemoveReplacement = (id: string) => {
+    onReplacementsChange(replacements.filter(replacement => replacement.id !== id));
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs gap-1">
+          <WandSparkles className="h-3.5 w-3.5" />
+          Text cleanup
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Text cleanup</DialogTitle>
+          <DialogDescription>
+            Recognized speech is tidied up before it is added to the transcript and shared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <label htmlFor="autoPunctuation" className="text-sm">
+            <span className="font-medium">Automatic punctuation</span>
+            <span className="block text-xs text-muted-foreground">
+              Capitalize sentences and end them with a period or question mark when you pause.
+            </span>
+          </label>
+          <Switch
+            id="autoPunctuation"
+            checked={autoPunctuation}
+            onCheckedChange={onAutoPunctuationChange}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Replacements</div>
+          {replacements.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              No replacements yet, e.g. replace "gonna" with "going to".
+            </p>
+          ) : (
+            <div className="max-h-48 overflow-y-auto space-y-1 text-sm">
+              {replacements.map(replacement => (
+                <div
+                  key={replacement.id}
+                  className="flex items-center justify-between gap-2 py-1 border-b last:border-b-0"
+                >
+                  <span className="flex items-center gap-2 text-xs">
+                    <span className="font-mono">"{replacement.from}"</span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <span className="font-mono">{replacement.to ? `"${replacement.to}"` : '(removed)'}</span>
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => handleRemoveReplacement(replacement.id)}
+                    aria-label={`Remove replacement for "${replacement.from}"`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex space-x-2">
+            <Input
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              placeholder="Spoken words"
+            />
+            <Input
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder="Written as"
+            />
+            <Button size="icon" onClick={handleAddReplacement} aria-label="Add replacement">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TextCleanupDialog;
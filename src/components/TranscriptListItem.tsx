@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Clock, Copy, FileText, Pencil, Trash2, Users } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { formatDuration, getTranscriptStats, SavedTranscript } from '@/lib/transcriptLibrary';
+
+interface TranscriptListItemProps {
+  transcript: SavedTranscript;
+  onRename: (title: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const TranscriptListItem: React.FC<TranscriptListItemProps> = ({
+  transcript,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [title, setTitle] = useState(transcript.title);
+
+  const stats = getTranscriptStats(transcript);
+  const participantNames = Object.values(transcript.participants);
+
+  const handleRename = () => {
+    onRename(title);
+    setIsRenaming(false);
+  };
+
+  const startRenaming = () => {
+    setTitle(transcript.title);
+    setIsRenaming(true);
+  };
+
+  return (
+    <Card className="border shadow-sm bg-card/50">
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          {isRenaming ? (
+            <form
+              className="flex flex-1 gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleRename();
+              }}
+            >
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} autoFocus />
+              <Button type="submit" size="sm">Save</Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setIsRenaming(false)}>
+                Cancel
+              </Button>
+            </form>
+          ) : (
+            <Link
+              to={`/history/${transcript.id}`}
+              className="font-medium hover:underline flex items-center gap-2 min-w-0"
+            >
+              <FileText className="h-4 w-4 shrink-0" />
+              <span className="truncate">{transcript.title}</span>
+            </Link>
+          )}
+
+          {!isRenaming && (
+            <div className="flex shrink-0">
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={startRenaming} aria-label="Rename">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onDuplicate} aria-label="Duplicate">
+                <Copy className="h-4 w-4" />
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this transcript?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      "{transcript.title}" will be removed from your history. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <span>{format(new Date(transcript.createdAt), 'd MMM yyyy, HH:mm')}</span>
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {formatDuration(stats.duration)}
+          </span>
+          <span>{stats.wordCount} {stats.wordCount === 1 ? 'word' : 'words'}</span>
+          {participantNames.length > 0 && (
+            <span className="flex items-center gap-1">
+              <Users className="h-3 w-3" />
+              {participantNames.join(', ')}
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TranscriptListItem;
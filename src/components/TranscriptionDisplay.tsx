@@ -6,12 +6,14 @@ import { toast } from 'sonner';
 
 interface TranscriptionDisplayProps {
   text: string;
+  interimText?: string;
   isRecording: boolean;
   onTextChange?: (newText: string) => void;
 }
 
 const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ 
   text, 
+  interimText = '',
   isRecording,
   onTextChange
 }) => {
@@ -23,7 +25,7 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     if (containerRef.current) {
       containerRef.current.scrollTop = containerRef.current.scrollHeight;
     }
-  }, [text]);
+  }, [text, interimText]);
   
   const copyToClipboard = () => {
     if (!text.trim()) {
@@ -61,6 +63,14 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
               onChange={handleTextChange}
               placeholder={isRecording ? "Listening to your voice..." : "Edit your text here..."}
             />
+            {interimText && (
+              <p
+                className="text-lg leading-relaxed italic text-muted-foreground animate-fade-in"
+                aria-live="polite"
+              >
+                {interimText}
+              </p>
+            )}
           </div>
           
           {text && (
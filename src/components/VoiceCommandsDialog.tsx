@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { MessageSquareQuote, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { DEFAULT_VOICE_COMMANDS, VoiceCommand } from '@/lib/voiceCommands';
+
+interface VoiceCommandsDialogProps {
+  enabled: boolean;
+  customCommands: VoiceCommand[];
+  onEnabledChange: (enabled: boolean) => void;
+  onCustomCommandsChange: (commands: VoiceCommand[]) => void;
+}
+
+// Show line breaks as readable markers instead of blank space
+const describeInsert = (text: string) => text.replace(/\n/g, '↵');
+
+const VoiceCommandsDialog: React.FC<VoiceCommandsDialogProps> = ({
+  enabled,
+  customCommands,
+  onEnabledChange,
+  onCustomCommandsChange,
+}) => {
+  const [phrase, setPhrase] = useState('');
+  const [replacement, setReplacement] = useState('');
+
+  const handleAddCommand = () => {
+    const trimmedPhrase = phrase.trim().toLowerCase();
+    if (!trimmedPhrase || !replacement) {
+      toast.error('Enter both a phrase and the text to insert');
+      return;
+    }
+
+    const allPhrases = [...DEFAULT_VOICE_COMMANDS, ...customCommands].flatMap(command => command.phrases);
+    if (allPhrases.includes(trimmedPhrase)) {
+      toast.error(`"${trimmedPhrase}" is already a command`);
+      return;
+    }
+
+    onCustomCommandsChange([
+      ...customCommands,
+      {
+        id: `custom-${Date.now()}`,
+        label: `Insert "${replacement}"`,
+        phrases: [trimmedPhrase],
+        action: { type: 'insert', text: replacement },
+        custom: true,
+      },
+    ]);
+    setPhrase('');
+    setReplacement('');
+  };
+
+  const handleRemoveCommand = (id: string) => {
+    onCustomCommandsChange(customCommands.filter(command => command.id !== id));
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs gap-1">
+          <MessageSquareQuote className="h-3.5 w-3.5" />
+          Voice commands
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Voice commands</DialogTitle>
+          <DialogDescription>
+            Say these phrases while dictating to punctuate, edit and control recording.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <label htmlFor="voiceCommandsEnabled" className="text-sm font-medium">
+            Enable voice commands
+          </label>
+          <Switch
+            id="voiceCommandsEnabled"
+            checked={enabled}
+            onCheckedChange={onEnabledChange}
+          />
+        </div>
+
+        <div className="max-h-64 overflow-y-auto space-y-1 text-sm">
+          {[...DEFAULT_VOICE_COMMANDS, ...customCommands].map(command => (
+            <div key={command.id} className="flex items-center justify-between gap-2 py-1 border-b last:border-b-0">
+              <span className="font-mono text-xs">"{command.phrases.join('" / "')}"</span>
+              <span className="flex items-center gap-1 text-muted-foreground text-xs">
+                {command.action.type === 'insert' ? describeInsert(command.action.text) : command.label}
+                {command.custom && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => handleRemoveCommand(command.id)}
+                    aria-label={`Remove "${command.phrases[0]}"`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Add a custom command</div>
+          <div className="flex space-x-2">
+            <Input
+              value={phrase}
+              onChange={(e) => setPhrase(e.target.value)}
+              placeholder="Spoken phrase"
+            />
+            <Input
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder="Inserts"
+            />
+            <Button size="icon" onClick={handleAddCommand} aria-label="Add command">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VoiceCommandsDialog;
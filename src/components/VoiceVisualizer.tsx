@@ -1,27 +1,129 @@
-
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { Activity, AlertTriangle, BarChart3, MicOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FREQUENCY_BAND_COUNT, useMicrophoneLevel } from '@/hooks/useMicrophoneLevel';
+import { getSpeakerColor } from '@/lib/speakers';
+import type { VisualizerMode } from '@/lib/settings';
+import type { MicrophoneSettings } from '@/lib/microphone';
+import { cn } from '@/lib/utils';
 
 interface VoiceVisualizerProps {
   isRecording: boolean;
   userId?: string;
   userName?: string;
+  // Level shared by a remote speaker; without it the local microphone is measured
+  level?: number;
+  // Device measured for the local level
+  microphone?: MicrophoneSettings;
+  mode?: VisualizerMode;
+  onModeChange?: (mode: VisualizerMode) => void;
+  // Receives the local level as it changes, e.g. to share it with the session
+  onLevel?: (level: number) => void;
 }
 
-const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ isRecording, userId, userName }) => {
+// Remote speakers only share their loudness, so their bars follow a fixed voice-like profile
+const REMOTE_BAND_PROFILE = Array.from(
+  { length: FREQUENCY_BAND_COUNT },
+  (_, band) => 0.4 + 0.6 * Math.sin(Math.PI * (band + 1) / (FREQUENCY_BAND_COUNT + 1))
+);
+
+const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({
+  isRecording,
+  userId,
+  userName,
+  level: remoteLevel,
+  microphone,
+  mode = 'bars',
+  onModeChange,
+  onLevel,
+}) => {
+  const isRemote = remoteLevel !== undefined;
+  const reading = useMicrophoneLevel(isRecording && !isRemote, microphone);
+  const level = isRemote ? remoteLevel : reading.level;
+  const bands = isRemote ? REMOTE_BAND_PROFILE.map(weight => weight * level) : reading.bands;
+  const color = isRemote && userId ? getSpeakerColor(userId) : undefined;
+
+  const onLevelRef = useRef(onLevel);
+  onLevelRef.current = onLevel;
+  useEffect(() => {
+    if (!isRemote && isRecording) onLevelRef.current?.(reading.level);
+  }, [isRemote, isRecording, reading.level]);
+
   if (!isRecording) return null;
-  
+
   return (
-    <div className="recording-waves animate-fade-in">
+    <div className="flex flex-col items-center gap-1 animate-fade-in">
       {userName && (
-        <div className="user-name text-xs font-medium text-center mb-1 text-muted-foreground">
+        <div className="user-name text-xs font-medium text-center text-muted-foreground">
           {userName} is speaking...
         </div>
       )}
-      <div className="wave animate-wave-1"></div>
-      <div className="wave animate-wave-2"></div>
-      <div className="wave animate-wave-3"></div>
-      <div className="wave animate-wave-2"></div>
-      <div className="wave animate-wave-1"></div>
+
+      <div className="flex items-center gap-2">
+        {mode === 'bars' ? (
+          <div
+            className="recording-waves"
+            role="meter"
+            aria-label="Microphone level"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(level * 100)}
+          >
+            {bands.map((band, index) => (
+              <div
+                key={index}
+                className="wave"
+                style={{
+                  transform: `scaleY(${Math.max(0.08, band)})`,
+                  backgroundColor: reading.isClipping ? 'hsl(var(--destructive))' : color,
+                }}
+              />
+            ))}
+          </div>
+        ) : (
+          <div
+            className="h-2 w-48 rounded-full bg-muted overflow-hidden"
+            role="meter"
+            aria-label="Microphone level"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(level * 100)}
+          >
+            <div
+              className={cn(
+                'h-full rounded-full transition-[width] duration-75',
+                reading.isClipping ? 'bg-destructive' : 'bg-[hsl(var(--recording-color))]'
+              )}
+              style={{ width: `${level * 100}%`, backgroundColor: reading.isClipping ? undefined : color }}
+            />
+          </div>
+        )}
+
+        {onModeChange && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => onModeChange(mode === 'bars' ? 'level' : 'bars')}
+            title={mode === 'bars' ? 'Show loudness meter' : 'Show frequency bars'}
+          >
+            {mode === 'bars' ? <Activity className="h-3.5 w-3.5" /> : <BarChart3 className="h-3.5 w-3.5" />}
+          </Button>
+        )}
+      </div>
+
+      {!isRemote && reading.isClipping && (
+        <p className="text-xs text-destructive flex items-center gap-1" role="status">
+          <AlertTriangle className="h-3 w-3" />
+          Input is clipping. Move back from the microphone or lower its gain.
+        </p>
+      )}
+      {!isRemote && !reading.isClipping && reading.isSilent && (
+        <p className="text-xs text-amber-600 flex items-center gap-1" role="status">
+          <MicOff className="h-3 w-3" />
+          No sound detected. Check that your microphone is connected and unmuted.
+        </p>
+      )}
     </div>
   );
 };
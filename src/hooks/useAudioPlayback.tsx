@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import type { TranscriptSegment } from '@/lib/transcript';
+import { loadRecordingAudio } from '@/lib/localStore';
+
+// Recognition marks an utterance a little after speech starts and ends
+const PLAYBACK_PADDING_MS = 400;
+
+// Plays back the stored audio behind a segment, one segment at a time
+export function useAudioPlayback() {
+  const [playingSegmentId, setPlayingSegmentId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Object URLs per recording, so repeated clicks don't reassemble the file
+  const urlsRef = useRef<Map<string, string>>(new Map());
+
+  const stopPlayback = useCallback(() => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    setPlayingSegmentId(null);
+  }, []);
+
+  const playSegment = useCallback(async (segment: TranscriptSegment) => {
+    stopPlayback();
+    if (!segment.audio) return;
+
+    const { recordingId, start, end } = segment.audio;
+    try {
+      let url = urlsRef.current.get(recordingId);
+      if (!url) {
+        const blob = await loadRecordingAudio(recordingId);
+        if (!blob) {
+          toast.info('The audio for this sentence is not stored on this device');
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        urlsRef.current.set(recordingId, url);
+      }
+
+      const audio = new Audio(url);
+      audioRef.current = audio;
+      const stopAt = (end + PLAYBACK_PADDING_MS) / 1000;
+      audio.ontimeupdate = () => {
+        if (audio.currentTime >= stopAt && audioRef.current === audio) stopPlayback();
+      };
+      audio.onended = () => {
+        if (audioRef.current === audio) stopPlayback();
+      };
+
+      await new Promise<void>((resolve, reject) => {
+        audio.onloadedmetadata = () => resolve();
+        audio.onerror = () => reject(audio.error);
+      });
+      // Another segment was clicked while this one loaded
+      if (audioRef.current !== audio) return;
+
+      audio.currentTime = Math.max(0, start - PLAYBACK_PADDING_MS) / 1000;
+      setPlayingSegmentId(segment.id);
+      await audio.play();
+    } catch (error) {
+      console.error('Error playing audio:', error);
+      toast.error('Could not play the audio for this sentence');
+      stopPlayback();
+    }
+  }, [stopPlayback]);
+
+  useEffect(() => {
+    const urls = urlsRef.current;
+    return () => {
+      audioRef.current?.pause();
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  return { playingSegmentId, playSegment, stopPlayback };
+}
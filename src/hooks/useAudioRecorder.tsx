@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import type { SegmentAudio } from '@/lib/transcript';
+import { acquireMicrophone, MicrophoneLease, MicrophoneSettings } from '@/lib/microphone';
+import {
+  appendAudioChunk,
+  AudioRecording,
+  createRecordingId,
+  saveRecording,
+} from '@/lib/localStore';
+
+// Chunks are written as they arrive, so a crash loses at most this much audio
+const AUDIO_CHUNK_MS = 1000;
+
+interface AudioRecorderOptions {
+  // The user has opted in to keeping audio
+  enabled: boolean;
+  // Dictation is running; audio is only captured while it is
+  isRecording: boolean;
+  microphone?: MicrophoneSettings;
+}
+
+// Records the microphone next to speech recognition and stores it in IndexedDB.
+// Each dictation run becomes one recording that segments point into.
+export function useAudioRecorder({ enabled, isRecording, microphone }: AudioRecorderOptions) {
+  // The recording in progress, which segments being dictated now point into
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const recordingRef = useRef<AudioRecording | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !isRecording) return;
+
+    let cancelled = false;
+    let lease: MicrophoneLease | null = null;
+    let recorder: MediaRecorder | null = null;
+
+    const start = async () => {
+      try {
+        const acquired = await acquireMicrophone(microphone);
+        if (cancelled) {
+          acquired.release();
+          return;
+        }
+        lease = acquired;
+
+        recorder = new MediaRecorder(lease.stream);
+        const recording: AudioRecording = {
+          id: createRecordingId(),
+          mimeType: '',
+          startedAt: 0,
+        };
+        recorder.ondataavailable = (event) => {
+          if (event.data.size === 0) return;
+          appendAudioChunk(recording.id, event.data)
+            .catch(error => console.error('Error storing audio:', error));
+        };
+        recorder.start(AUDIO_CHUNK_MS);
+        // Offsets are measured from when the recorder actually started; some
+        // browsers only settle on a container format once it has
+        recording.startedAt = Date.now();
+        recording.mimeType = recorder.mimeType;
+        await saveRecording(recording);
+        if (cancelled) return;
+        recordingRef.current = recording;
+        setRecordingId(recording.id);
+      } catch (error) {
+        console.error('Error starting audio recording:', error);
+        toast.error('Could not record audio. Dictation continues without it.');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      recordingRef.current = null;
+      setRecordingId(null);
+      // Stopping flushes the last chunk through ondataavailable
+      if (recorder && recorder.state !== 'inactive') recorder.stop();
+      lease?.release();
+    };
+  }, [enabled, isRecording, microphone]);
+
+  // Where an utterance (epoch milliseconds) falls in the current recording
+  const getAudioLink = useCallback((startTime: number, endTime: number): SegmentAudio | undefined => {
+    const recording = recordingRef.current;
+    if (!recording) return undefined;
+    return {
+      recordingId: recording.id,
+      start: Math.max(0, startTime - recording.startedAt),
+      end: Math.max(0, endTime - recording.startedAt),
+    };
+  }, []);
+
+  return { isCapturing: recordingId !== null, recordingId, getAudioLink };
+}
@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react';
+import type { TranscriptSegment } from '@/lib/transcript';
+import { CAPTURE_ACK_EVENT, CaptureAck, takeCapturedSegments } from '@/lib/pairing';
+
+interface DevicePairingOptions {
+  sessionId: string;
+  userId: string;
+  // Set while this device is a microphone for that participant
+  pairedWith: string | null;
+  // Streams of the capture devices paired with this one
+  capturedStreams: {[key: string]: TranscriptSegment[]};
+  segments: TranscriptSegment[];
+  setSegments: (segments: TranscriptSegment[]) => void;
+  sendEvent: (event: string, payload: unknown) => void;
+  onEvent: (event: string, listener: (payload: unknown) => void) => () => void;
+}
+
+// Moves dictation from capture devices into the display's transcript. The display
+// takes each finished segment as its own and acknowledges it; the capture device
+// then drops it. Taken segments keep their id, so one the capture device still
+// offers (a lost acknowledgement, or a reload on either side) is recognized and
+// acknowledged again instead of being taken twice.
+export function useDevicePairing({
+  sessionId,
+  userId,
+  pairedWith,
+  capturedStreams,
+  segments,
+  setSegments,
+  sendEvent,
+  onEvent,
+}: DevicePairingOptions) {
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
+  const setSegmentsRef = useRef(setSegments);
+  setSegmentsRef.current = setSegments;
+  // Captured segments already taken, until their capture device lets go of them
+  const takenRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    takenRef.current = new Set();
+  }, [sessionId]);
+
+  // Display side: take newly finished segments from each paired microphone
+  useEffect(() => {
+    Object.entries(capturedStreams).forEach(([captureId, captured]) => {
+      // Taken segments keep their id in our transcript, which survives reloads in the draft
+      const known = new Set([...takenRef.current, ...segmentsRef.current.map(segment => segment.id)]);
+      const fresh = takeCapturedSegments(captured, known);
+      // Still offered although we have them: our last acknowledgement didn't arrive
+      const unacknowledged = captured.filter(segment => known.has(segment.id));
+      if (fresh.length === 0 && unacknowledged.length === 0) return;
+
+      if (fresh.length > 0) {
+        fresh.forEach(segment => takenRef.current.add(segment.id));
+        // The audio stays on the phone, so there is nothing to play back here
+        const taken = fresh.map(({ audio: _audio, ...segment }) => ({ ...segment, speakerId: userId }));
+        segmentsRef.current = [...segmentsRef.current, ...taken];
+        setSegmentsRef.current(segmentsRef.current);
+      }
+
+      sendEvent(CAPTURE_ACK_EVENT, {
+        userId,
+        captureId,
+        segmentIds: [...unacknowledged, ...fresh].map(segment => segment.id),
+      } as CaptureAck);
+    });
+  }, [capturedStreams, userId, sendEvent]);
+
+  // Capture side: forget segments once our display has them
+  useEffect(() => {
+    if (!sessionId || !pairedWith) return;
+
+    return onEvent(CAPTURE_ACK_EVENT, (payload) => {
+      const { userId: senderId, captureId, segmentIds } = payload as CaptureAck;
+      if (captureId !== userId || senderId !== pairedWith) return;
+
+      const acknowledged = new Set(segmentIds);
+      segmentsRef.current = segmentsRef.current.filter(segment => !acknowledged.has(segment.id));
+      setSegmentsRef.current(segmentsRef.current);
+    });
+  }, [sessionId, userId, pairedWith, onEvent]);
+}
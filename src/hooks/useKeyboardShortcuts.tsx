@@ -0,0 +1,87 @@
+import { useEffect, useRef } from 'react';
+import {
+  comboFromEvent,
+  comboKey,
+  hasCommandModifier,
+  ShortcutAction,
+  ShortcutBindings,
+} from '@/lib/shortcuts';
+
+interface KeyboardShortcutOptions {
+  onAction: (action: Exclude<ShortcutAction, 'pushToTalk'>) => void;
+  // The push-to-talk key is only bound while these are given
+  onTalkStart?: () => void;
+  onTalkEnd?: () => void;
+}
+
+// Plain keys belong to whatever has focus here, e.g. Space on a button
+const INTERACTIVE_SELECTOR = [
+  'input',
+  'textarea',
+  'select',
+  'button',
+  'a[href]',
+  '[contenteditable="true"]',
+  '[role="button"]',
+  '[role="menuitem"]',
+  '[role="option"]',
+  '[role="switch"]',
+].join(', ');
+
+function isInteractiveTarget(target: EventTarget | null) {
+  return target instanceof Element && !!target.closest(INTERACTIVE_SELECTOR);
+}
+
+// Global keyboard shortcuts, including a hold-to-talk key
+export function useKeyboardShortcuts(bindings: ShortcutBindings, options: KeyboardShortcutOptions) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const isHoldingRef = useRef(false);
+
+  useEffect(() => {
+    const releaseTalk = () => {
+      if (!isHoldingRef.current) return;
+      isHoldingRef.current = false;
+      optionsRef.current.onTalkEnd?.();
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const combo = comboFromEvent(event);
+      if (!combo) return;
+      if (isInteractiveTarget(event.target) && !hasCommandModifier(combo)) return;
+
+      const { onAction, onTalkStart } = optionsRef.current;
+      if (onTalkStart && combo === bindings.pushToTalk) {
+        event.preventDefault();
+        if (!isHoldingRef.current) {
+          isHoldingRef.current = true;
+          onTalkStart();
+        }
+        return;
+      }
+
+      const match = (Object.keys(bindings) as ShortcutAction[])
+        .find(action => action !== 'pushToTalk' && bindings[action] === combo);
+      if (!match || match === 'pushToTalk') return;
+
+      event.preventDefault();
+      if (!event.repeat) onAction(match);
+    };
+
+    // Modifiers may be let go first, so the release only has to match the key itself
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === comboKey(bindings.pushToTalk)) releaseTalk();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    // A key released in another window never sends keyup here
+    window.addEventListener('blur', releaseTalk);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseTalk);
+      releaseTalk();
+    };
+  }, [bindings]);
+}
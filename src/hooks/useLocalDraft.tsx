@@ -0,0 +1,53 @@
+import { useState, useEffect, useRef } from 'react';
+import type { TranscriptSegment } from '@/lib/transcript';
+import { loadDraft, saveDraft } from '@/lib/localStore';
+
+// Writes are batched; dictation can produce several updates a second
+const DRAFT_SAVE_DELAY_MS = 500;
+
+interface LocalDraftOptions {
+  segments: TranscriptSegment[];
+  setSegments: (segments: TranscriptSegment[]) => void;
+}
+
+// Keeps the dictation in progress in IndexedDB and restores it on load
+export function useLocalDraft({ segments, setSegments }: LocalDraftOptions) {
+  const [isRestored, setIsRestored] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const setSegmentsRef = useRef(setSegments);
+  setSegmentsRef.current = setSegments;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadDraft()
+      .then(draft => {
+        if (cancelled || !draft) return;
+        setSegmentsRef.current(draft.segments);
+        setLastSavedAt(draft.updatedAt);
+      })
+      .catch(error => console.error('Error restoring draft:', error))
+      .finally(() => {
+        if (!cancelled) setIsRestored(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Don't overwrite the stored draft with the empty state before it has been restored
+  useEffect(() => {
+    if (!isRestored) return;
+
+    const timer = setTimeout(() => {
+      saveDraft(segments)
+        .then(() => setLastSavedAt(Date.now()))
+        .catch(error => console.error('Error saving draft:', error));
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [segments, isRestored]);
+
+  return { isRestored, lastSavedAt };
+}
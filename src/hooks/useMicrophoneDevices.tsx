@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  listMicrophones,
+  MicrophonePermission,
+  queryMicrophonePermission,
+} from '@/lib/microphone';
+
+// Available audio inputs and the microphone permission, kept current as devices come and go
+export function useMicrophoneDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [permission, setPermission] = useState<MicrophonePermission>('prompt');
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await listMicrophones());
+    } catch (error) {
+      console.error('Error listing microphones:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) {
+      setPermission('unsupported');
+      return;
+    }
+
+    let status: PermissionStatus | null = null;
+    let cancelled = false;
+    const handlePermissionChange = () => {
+      if (!status) return;
+      setPermission(status.state);
+      // Labels become readable once access is granted
+      refreshDevices();
+    };
+
+    refreshDevices();
+    queryMicrophonePermission().then(result => {
+      if (cancelled) return;
+      status = result;
+      if (!status) {
+        setPermission('unsupported');
+        return;
+      }
+      setPermission(status.state);
+      status.addEventListener('change', handlePermissionChange);
+    });
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+
+    return () => {
+      cancelled = true;
+      status?.removeEventListener('change', handlePermissionChange);
+      navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+    };
+  }, [refreshDevices]);
+
+  // Ask for access so the device names can be shown
+  const requestPermission = useCallback(async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream.getTracks().forEach(track => track.stop());
+      setPermission(prev => prev === 'unsupported' ? prev : 'granted');
+      await refreshDevices();
+    } catch (error) {
+      console.error('Error requesting microphone access:', error);
+      setPermission(prev => prev === 'unsupported' ? prev : 'denied');
+      toast.error('Microphone access was denied. Allow it in your browser\'s site settings.');
+    }
+  }, [refreshDevices]);
+
+  return { devices, permission, requestPermission, refreshDevices };
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import {
+  computeRms,
+  hasClipped,
+  rmsToLevel,
+  SILENCE_LEVEL,
+  toFrequencyBands,
+} from '@/lib/audioLevel';
+import { acquireMicrophone, MicrophoneLease, MicrophoneSettings } from '@/lib/microphone';
+
+export interface MicrophoneReading {
+  // Loudness from 0 to 1
+  level: number;
+  // Spectrum from low to high frequencies, each 0 to 1
+  bands: number[];
+  isClipping: boolean;
+  // Nothing above the silence threshold for a while
+  isSilent: boolean;
+}
+
+export const FREQUENCY_BAND_COUNT = 16;
+// Keep the clipping warning up long enough to be noticed
+const CLIPPING_HOLD_MS = 1000;
+// Short pauses are normal; only warn once it has been quiet this long
+const SILENCE_WARNING_MS = 4000;
+
+const IDLE_READING: MicrophoneReading = {
+  level: 0,
+  bands: new Array(FREQUENCY_BAND_COUNT).fill(0),
+  isClipping: false,
+  isSilent: false,
+};
+
+// Measures the microphone through a Web Audio analyser, updating every animation frame
+export function useMicrophoneLevel(enabled: boolean, microphone?: MicrophoneSettings) {
+  const [reading, setReading] = useState<MicrophoneReading>(IDLE_READING);
+
+  useEffect(() => {
+    if (!enabled) {
+      setReading(IDLE_READING);
+      return;
+    }
+
+    let cancelled = false;
+    let lease: MicrophoneLease | null = null;
+    let disconnect: (() => void) | null = null;
+    let frame: number | null = null;
+
+    const start = async () => {
+      try {
+        const acquired = await acquireMicrophone(microphone);
+        if (cancelled) {
+          acquired.release();
+          return;
+        }
+        lease = acquired;
+
+        const analyser = acquired.context.createAnalyser();
+        analyser.fftSize = 1024;
+        analyser.smoothingTimeConstant = 0.6;
+        acquired.source.connect(analyser);
+        disconnect = () => acquired.source.disconnect(analyser);
+
+        const samples = new Float32Array(analyser.fftSize);
+        const frequencies = new Uint8Array(analyser.frequencyBinCount);
+        let lastSoundAt = performance.now();
+        let lastClipAt = -Infinity;
+
+        const tick = (now: number) => {
+          analyser.getFloatTimeDomainData(samples);
+          analyser.getByteFrequencyData(frequencies);
+
+          const level = rmsToLevel(computeRms(samples));
+          if (level > SILENCE_LEVEL) lastSoundAt = now;
+          if (hasClipped(samples)) lastClipAt = now;
+
+          setReading({
+            level,
+            bands: toFrequencyBands(frequencies, FREQUENCY_BAND_COUNT),
+            isClipping: now - lastClipAt < CLIPPING_HOLD_MS,
+            isSilent: now - lastSoundAt > SILENCE_WARNING_MS,
+          });
+          frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+      } catch (error) {
+        // Recognition reports microphone problems itself; the meter just stays flat
+        console.error('Error measuring microphone level:', error);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (frame !== null) cancelAnimationFrame(frame);
+      disconnect?.();
+      lease?.release();
+    };
+  }, [enabled, microphone]);
+
+  return reading;
+}
@@ -1,351 +1,1482 @@
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { toast } from 'sonner';
 import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+import type { TranscriptSegment } from '@/lib/transcript';
+import {
+  createSecureSession,
+  createSessionInvite,
+  joinSecureSession,
+  rotateSessionPassphrase,
+  SessionAccess,
+} from '@/lib/sessionAuth';
+import {
+  buildSessionLink,
+  createSessionSecret,
+  decryptPayload,
+  DecryptionError,
+  DecryptionFailure,
+  deriveSessionKey,
+  encryptPayload,
+  isValidSessionSecret,
+} from '@/lib/sessionCrypto';
+import {
+  deleteSegments,
+  loadSessionHistory,
+  saveParticipant,
+  saveSegments,
+  SessionStoreAccess,
+} from '@/lib/sessionStore';
+import {
+  loadOutbox,
+  loadRecentSession,
+  queueOutboxEntry,
+  removeOutboxEntries,
+  removeRecentSession,
+  saveRecentSession,
+} from '@/lib/localStore';
+import {
+  ConnectionEvent,
+  ConnectionState,
+  getReconnectDelay,
+  transitionConnection,
+} from '@/lib/connection';
+import {
+  applyStreamMessage,
+  createStreamId,
+  diffSegments,
+  RemoteStream,
+  SnapshotRequest,
+  TranscriptDelta,
+  TranscriptSnapshot,
+} from '@/lib/transcriptSync';
+import { DeviceRole, getDeviceRole } from '@/lib/pairing';
 
-// Message type for real-time communication
-type Message = {
+// Transcript sync messages, all sent as the 'message' event
+export type Message = TranscriptDelta | TranscriptSnapshot | SnapshotRequest;
+
+// Idle participants are present but away; offline ones left or stopped responding
+export type PresenceStatus = 'online' | 'idle' | 'offline';
+
+export type ConnectedUser = {
+  name: string;
+  isRecording: boolean;
+  language?: string;
+  status: PresenceStatus;
+  // Epoch milliseconds of the last heartbeat or activity
+  lastSeenAt: number;
+  role: DeviceRole;
+  // For a capture device, the participant whose transcript it feeds
+  pairedWith?: string | null;
+};
+
+// A broadcast that could not be decrypted, shown in place of its content
+export type RejectedMessage = {
+  id: string;
+  senderId: string | null;
+  event: string;
+  reason: DecryptionFailure;
+  timestamp: number;
+};
+
+// Low-priority interim hypothesis, never stored in the message history
+type InterimMessage = {
   userId: string;
-  userName: string;
   text: string;
+};
+
+// Microphone loudness of a speaker, 0 to 1, sent a few times a second while recording
+type LevelMessage = {
+  userId: string;
+  level: number;
+};
+
+// Sent by the owner after changing the passphrase, which invalidates everyone else's access
+type PassphraseChangedMessage = {
+  userId: string;
+};
+
+// What each participant publishes through Realtime Presence, encrypted like every broadcast
+type PresenceInfo = {
+  userId: string;
+  userName: string;
   isRecording: boolean;
-  timestamp: number;
-  messageId: string; // Unique ID for deduplication
+  language: string;
+  status: Exclude<PresenceStatus, 'offline'>;
+  pairedWith: string | null;
+  updatedAt: number;
+};
+
+type PresenceMeta = {
+  envelope?: unknown;
+  presence_ref?: string;
 };
 
-export function useRealTimeSharing() {
-  const [userId] = useState(`user-${Math.floor(Math.random() * 10000)}`);
-  const [userName, setUserName] = useState(`User ${Math.floor(Math.random() * 100)}`);
+type BroadcastListener = (payload: unknown) => void;
+
+// 'local' when not in a session; 'pending' while queued changes wait to be sent or saved
+export type SyncStatus = 'local' | 'offline' | 'pending' | 'synced';
+
+const IDENTITY_STORAGE_KEY = 'voicewrite:identity';
+const PAIRING_STORAGE_KEY = 'voicewrite:pairing';
+
+// Kept per tab, so a reload rejoins as the same participant while separate tabs stay distinct
+function loadTabIdentity(): { userId: string; userName: string } {
+  try {
+    const stored = window.sessionStorage.getItem(IDENTITY_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.error('Error loading identity', e);
+  }
+  
+  const identity = {
+    userId: `user-${Math.floor(Math.random() * 10000)}`,
+    userName: `User ${Math.floor(Math.random() * 100)}`
+  };
+  saveTabIdentity(identity);
+  return identity;
+}
+
+function saveTabIdentity(identity: { userId: string; userName: string }) {
+  try {
+    window.sessionStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identity));
+  } catch (e) {
+    console.error('Error saving identity', e);
+  }
+}
+
+// Which participant this tab is a microphone for, kept so a reload stays paired
+function loadTabPairing(): string | null {
+  try {
+    return window.sessionStorage.getItem(PAIRING_STORAGE_KEY);
+  } catch (e) {
+    console.error('Error loading pairing', e);
+    return null;
+  }
+}
+
+function saveTabPairing(pairedWith: string | null) {
+  try {
+    if (pairedWith) {
+      window.sessionStorage.setItem(PAIRING_STORAGE_KEY, pairedWith);
+    } else {
+      window.sessionStorage.removeItem(PAIRING_STORAGE_KEY);
+    }
+  } catch (e) {
+    console.error('Error saving pairing', e);
+  }
+}
+
+// Transcript changes made within this window go out as one delta
+const MESSAGE_THROTTLE_MS = 250;
+// Requests for a snapshot arriving together are answered once
+const SNAPSHOT_REPLY_DELAY_MS = 200;
+// Don't ask the same sender for a snapshot again while one is probably on its way
+const SNAPSHOT_REQUEST_INTERVAL_MS = 2000;
+// Minimum gap between interim broadcasts so they never crowd out real messages
+const INTERIM_THROTTLE_MS = 300;
+// Levels only animate remote meters, so a low rate is enough
+const LEVEL_THROTTLE_MS = 250;
+// Changes smaller than this aren't visible on a meter
+const LEVEL_CHANGE_THRESHOLD = 0.05;
+const MAX_REJECTED_MESSAGES = 50;
+// Finalized segments are written to the database in batches
+const PERSIST_DEBOUNCE_MS = 1500;
+// Snapshot of the session kept on this device for reloads
+const RECENT_SESSION_SAVE_DELAY_MS = 1000;
+// Presence is refreshed this often, which doubles as the last-seen heartbeat
+const PRESENCE_HEARTBEAT_MS = 30000;
+// Someone still listed but silent for this long (e.g. a frozen tab) counts as offline
+const PRESENCE_TIMEOUT_MS = 75000;
+// No input for this long, or a hidden tab, marks us idle unless recording
+const IDLE_AFTER_MS = 120000;
+// Unacknowledged broadcasts in a row before the channel is rejoined
+const MAX_FAILED_SENDS = 3;
+// Rejoins in a row before giving up until the user retries or the network comes back
+const MAX_RECONNECT_ATTEMPTS = 10;
+// Interim text and levels are stale by the time we're back online, so they aren't worth queueing
+const UNQUEUED_EVENTS = new Set(['interim', 'level']);
+
+interface RealTimeSharingOptions {
+  // Dictation language announced to the other participants
+  language?: string;
+  // Rejoin the session from before a reload; off when the page was opened with an invite link
+  resumeSession?: boolean;
+}
+
+export function useRealTimeSharing({
+  language = DEFAULT_LANGUAGE,
+  resumeSession = true
+}: RealTimeSharingOptions = {}) {
+  const [identity] = useState(loadTabIdentity);
+  const userId = identity.userId;
+  const [userName, setUserName] = useState(identity.userName);
   const [sessionId, setSessionId] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [connectedUsers, setConnectedUsers] = useState<{[key: string]: {name: string, isRecording: boolean}}>({});
+  // Each remote participant's transcript, as rebuilt from their deltas and snapshots
+  const [remoteStreams, setRemoteStreams] = useState<{[key: string]: RemoteStream}>({});
+  // Other participants currently listed in presence, as they last described themselves
+  const [presentUsers, setPresentUsers] = useState<{[key: string]: ConnectedUser}>({});
+  const [participantLastSeen, setParticipantLastSeen] = useState<{[key: string]: number}>({});
+  const [isLocalRecording, setIsLocalRecording] = useState(false);
+  const [localStatus, setLocalStatus] = useState<PresenceInfo['status']>('online');
+  // Set while this device is used only as a microphone for another participant
+  const [pairedWith, setPairedWith] = useState(loadTabPairing);
+  // Everyone seen acting as a capture device; their text reaches us through their display instead
+  const [captureIds, setCaptureIds] = useState<Set<string>>(new Set());
+  // Advanced with every heartbeat so silent participants time out
+  const [presenceClock, setPresenceClock] = useState(() => Date.now());
+  const [interimTexts, setInterimTexts] = useState<{[key: string]: string}>({});
+  const [speakerLevels, setSpeakerLevels] = useState<{[key: string]: number}>({});
+  const [isSessionOwner, setIsSessionOwner] = useState(false);
+  // Shared with participants through the invite link only; the server never sees it
+  const [sessionSecret, setSessionSecret] = useState('');
+  const [rejectedMessages, setRejectedMessages] = useState<RejectedMessage[]>([]);
+  // Segments saved before this device joined, per speaker, and everyone's last known name
+  const [historySegments, setHistorySegments] = useState<{[key: string]: TranscriptSegment[]}>({});
+  const [participantNames, setParticipantNames] = useState<{[key: string]: string}>({});
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isChannelReady, setIsChannelReady] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('connecting');
+  // Broadcasts waiting in the offline outbox
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [hasUnsavedSegments, setHasUnsavedSegments] = useState(false);
   
   // Use refs to prevent infinite updates in useEffects
-  const latestMessageRef = useRef<string>('');
-  const lastBroadcastTimeRef = useRef<number>(0);
   const isRecordingRef = useRef<boolean>(false);
   const sessionChannelRef = useRef<any>(null);
-  const processedMessageIds = useRef<Set<string>>(new Set());
+  // Our own transcript stream: the latest segments, and what receivers have been sent
+  const streamIdRef = useRef(createStreamId());
+  const streamSeqRef = useRef(0);
+  const localSegmentsRef = useRef<TranscriptSegment[]>([]);
+  const sentSegmentsRef = useRef<TranscriptSegment[]>([]);
+  const messageTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const snapshotTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const remoteStreamsRef = useRef<{[key: string]: RemoteStream}>({});
+  // When each sender was last asked for a snapshot
+  const snapshotRequestsRef = useRef<Map<string, number>>(new Map());
+  const languageRef = useRef(language);
+  // Only the creator holds this; it authorizes passphrase rotation and invites
+  const ownerTokenRef = useRef<string | null>(null);
+  // Extra broadcast events handled outside this hook, e.g. by the shared document
+  const broadcastListenersRef = useRef<Map<string, Set<BroadcastListener>>>(new Map());
+  const pendingInterimRef = useRef<string | null>(null);
+  const interimTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastInterimRef = useRef<string>('');
+  const pendingLevelRef = useRef<number | null>(null);
+  const levelTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastLevelRef = useRef(0);
+  const sessionKeyRef = useRef<CryptoKey | null>(null);
+  // Encryption and decryption are async; chaining them keeps broadcasts in order
+  const sendQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const receiveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const warnedSendersRef = useRef<Set<string>>(new Set());
+  const storeAccessRef = useRef<SessionStoreAccess | null>(null);
+  // Last saved version of each of our segments, so only changes are written
+  const persistedSegmentsRef = useRef<Map<string, string>>(new Map());
+  const pendingPersistRef = useRef<TranscriptSegment[] | null>(null);
+  const persistTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const persistQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Most recent segments handed to us, retried if saving them failed
+  const latestPersistRef = useRef<TranscriptSegment[] | null>(null);
+  const hasUnsavedSegmentsRef = useRef(false);
+  const currentAccessRef = useRef<SessionAccess | null>(null);
+  const channelReadyRef = useRef(false);
+  // Set when we may have missed segments, e.g. after a reload or a dropped connection
+  const historyStaleRef = useRef(false);
+  const resumeAttemptedRef = useRef(false);
+  // Runs whenever the channel (re)subscribes; assigned once the helpers below exist
+  const resyncRef = useRef<() => void>(() => {});
+  const presentUsersRef = useRef<{[key: string]: ConnectedUser}>({});
+  // The first presence sync lists everyone already there; only later changes are announced
+  const presenceSyncedRef = useRef(false);
+  // Presence entries already reported as undecryptable
+  const rejectedPresenceRef = useRef<Set<string>>(new Set());
+  const presenceInfoRef = useRef<Omit<PresenceInfo, 'updatedAt'> | null>(null);
+  const pairedWithRef = useRef(pairedWith);
+  pairedWithRef.current = pairedWith;
+  // What the channel was last joined with, so it can be rejoined after dropping
+  const channelSecretRef = useRef<string | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const failedSendsRef = useRef(0);
+  // Schedules a rejoin with backoff; assigned once the channel setup exists
+  const reconnectRef = useRef<() => void>(() => {});
+  // Leaves the session once the owner has changed the passphrase; assigned with disconnectSession
+  const removedRef = useRef<() => void>(() => {});
+
+  const dispatchConnection = useCallback((event: ConnectionEvent) => {
+    setConnectionState(state => transitionConnection(state, event));
+  }, []);
+
+  // Keep a broadcast for later; it is sent once the channel is back
+  const queueBroadcast = useCallback(async (sessionId: string, event: string, payload: unknown) => {
+    if (UNQUEUED_EVENTS.has(event)) return;
+    
+    await queueOutboxEntry({ sessionId, event, payload, queuedAt: Date.now() });
+    setQueuedCount(count => count + 1);
+  }, []);
+
+  // Encrypt a payload and send it over the session channel, queueing it while offline
+  const sendBroadcast = useCallback((event: string, payload: unknown) => {
+    const channel = sessionChannelRef.current;
+    const key = sessionKeyRef.current;
+    const sessionId = storeAccessRef.current?.sessionId;
+    if (!key || !sessionId) return Promise.resolve();
+    
+    sendQueueRef.current = sendQueueRef.current
+      .then(async () => {
+        if (!channel || !channelReadyRef.current || !navigator.onLine) {
+          await queueBroadcast(sessionId, event, payload);
+          return;
+        }
+        
+        const envelope = await encryptPayload(key, event, userId, payload);
+        // Resolves 'ok' only once the server acknowledges the broadcast
+        const result = await channel.send({ type: 'broadcast', event, payload: envelope });
+        if (result === 'ok') {
+          failedSendsRef.current = 0;
+          dispatchConnection('send-ok');
+          return;
+        }
+        
+        await queueBroadcast(sessionId, event, payload);
+        dispatchConnection('send-failed');
+        failedSendsRef.current += 1;
+        // The channel still claims to be joined, but nothing is getting through
+        if (failedSendsRef.current >= MAX_FAILED_SENDS) {
+          failedSendsRef.current = 0;
+          channelReadyRef.current = false;
+          setIsChannelReady(false);
+          reconnectRef.current();
+        }
+      })
+      .catch(error => console.error(`Error sending ${event}:`, error));
+    return sendQueueRef.current;
+  }, [userId, queueBroadcast, dispatchConnection]);
+  
+  // Send everything queued while offline, in order, stopping at the first failure
+  const replayOutbox = useCallback(() => {
+    const access = storeAccessRef.current;
+    const key = sessionKeyRef.current;
+    if (!access || !key) return;
+    
+    sendQueueRef.current = sendQueueRef.current
+      .then(async () => {
+        const entries = await loadOutbox(access.sessionId);
+        const handled: number[] = [];
+        
+        for (const entry of entries) {
+          const channel = sessionChannelRef.current;
+          if (!channel || !channelReadyRef.current) break;
+          
+          // Transcript changes are covered by the snapshot sent on resync instead
+          if (entry.event !== 'message') {
+            const envelope = await encryptPayload(key, entry.event, userId, entry.payload);
+            const result = await channel.send({ type: 'broadcast', event: entry.event, payload: envelope });
+            if (result !== 'ok') break;
+          }
+          handled.push(entry.id!);
+        }
+        
+        await removeOutboxEntries(handled);
+        setQueuedCount(entries.length - handled.length);
+      })
+      .catch(error => console.error('Error replaying queued changes:', error));
+  }, [userId]);
+
+  const rejectMessage = useCallback((event: string, error: DecryptionError) => {
+    setRejectedMessages(prev => [
+      ...prev.slice(-(MAX_REJECTED_MESSAGES - 1)),
+      {
+        id: `rejected-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        senderId: error.senderId,
+        event,
+        reason: error.reason,
+        timestamp: Date.now()
+      }
+    ]);
+    
+    // One warning per sender is enough; the conversation view marks every occurrence
+    const warnKey = error.senderId ?? 'unknown';
+    if (!warnedSendersRef.current.has(warnKey)) {
+      warnedSendersRef.current.add(warnKey);
+      toast.error(`Rejected a message that could not be decrypted: ${error.message.toLowerCase()}`);
+    }
+  }, []);
+
+  // Send the whole of our stream, folding in any change still waiting to go out
+  const sendSnapshot = useCallback(() => {
+    if (messageTimerRef.current) {
+      clearTimeout(messageTimerRef.current);
+      messageTimerRef.current = null;
+    }
+    
+    const segments = localSegmentsRef.current;
+    if (diffSegments(sentSegmentsRef.current, segments)) {
+      streamSeqRef.current += 1;
+    }
+    sentSegmentsRef.current = segments;
+    
+    const snapshot: TranscriptSnapshot = {
+      kind: 'snapshot',
+      userId,
+      streamId: streamIdRef.current,
+      seq: streamSeqRef.current,
+      timestamp: Date.now(),
+      segments
+    };
+    sendBroadcast('message', snapshot);
+  }, [userId, sendBroadcast]);
+  
+  // Answer snapshot requests once, however many arrive together
+  const scheduleSnapshot = useCallback(() => {
+    if (snapshotTimerRef.current) return;
+    
+    snapshotTimerRef.current = setTimeout(() => {
+      snapshotTimerRef.current = null;
+      sendSnapshot();
+    }, SNAPSHOT_REPLY_DELAY_MS);
+  }, [sendSnapshot]);
+  
+  // Ask one sender, or everyone, for their whole stream
+  const requestSnapshot = useCallback((targetId?: string) => {
+    if (targetId) {
+      const requestedAt = snapshotRequestsRef.current.get(targetId) ?? 0;
+      if (Date.now() - requestedAt < SNAPSHOT_REQUEST_INTERVAL_MS) return;
+      snapshotRequestsRef.current.set(targetId, Date.now());
+    }
+    
+    const request: SnapshotRequest = { kind: 'snapshot-request', userId, targetId };
+    sendBroadcast('message', request);
+  }, [userId, sendBroadcast]);
 
+  // Take in a fresh presence listing, announcing who arrived and who left
+  const applyPresence = useCallback((users: {[key: string]: ConnectedUser}) => {
+    const previous = presentUsersRef.current;
+    presentUsersRef.current = users;
+    setPresentUsers(users);
+    
+    const captures = Object.keys(users).filter(id => users[id].pairedWith);
+    if (captures.length > 0) {
+      setCaptureIds(prev => captures.every(id => prev.has(id)) ? prev : new Set([...prev, ...captures]));
+    }
+    
+    const announce = presenceSyncedRef.current;
+    presenceSyncedRef.current = true;
+    
+    // Listeners hear about arrivals and departures as 'user_joined' and 'user_left' events
+    const notify = (event: string, id: string) => {
+      broadcastListenersRef.current.get(event)?.forEach(listener => listener({ userId: id }));
+    };
+    
+    Object.entries(users).forEach(([id, user]) => {
+      if (previous[id]) return;
+      if (announce) toast.success(`${user.name} joined the session`);
+      notify('user_joined', id);
+    });
+    
+    const left = Object.entries(previous).filter(([id]) => !users[id]);
+    if (left.length === 0) return;
+    
+    left.forEach(([id]) => notify('user_left', id));
+    
+    // Keep them on the roster as offline, with when they were last around
+    setParticipantNames(prev => ({
+      ...prev,
+      ...Object.fromEntries(left.map(([id, user]) => [id, user.name]))
+    }));
+    setParticipantLastSeen(prev => ({
+      ...prev,
+      ...Object.fromEntries(left.map(([id]) => [id, Date.now()]))
+    }));
+    const dropLeft = <T,>(prev: {[key: string]: T}) => {
+      const newState = { ...prev };
+      left.forEach(([id]) => delete newState[id]);
+      return newState;
+    };
+    setInterimTexts(dropLeft);
+    setSpeakerLevels(dropLeft);
+    left.forEach(([, user]) => toast.info(`${user.name} left the session`));
+  }, []);
+  
+  // Publish how this participant is doing; everyone else sees it on their roster
+  const trackPresence = useCallback(async () => {
+    const channel = sessionChannelRef.current;
+    const key = sessionKeyRef.current;
+    const info = presenceInfoRef.current;
+    if (!channel || !key || !info || !channelReadyRef.current) return;
+    
+    try {
+      const envelope = await encryptPayload(key, 'presence', userId, { ...info, updatedAt: Date.now() });
+      await channel.track({ envelope });
+    } catch (error) {
+      console.error('Error updating presence:', error);
+    }
+  }, [userId]);
+  
   // Function to set up real-time channel communication
-  const setupRealtimeChannel = useCallback((id: string) => {
+  const setupRealtimeChannel = useCallback(async (access: SessionAccess, secret: string) => {
+    const id = access.sessionId;
+    // Rejoining the same session after a drop keeps what we already know about it
+    const isRejoin = storeAccessRef.current?.sessionId === id;
+    
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    channelReadyRef.current = false;
+    setIsChannelReady(false);
+    
     // Clean up any existing channel
     if (sessionChannelRef.current) {
       supabase.removeChannel(sessionChannelRef.current);
+      sessionChannelRef.current = null;
     }
+    
+    // The session access token is what lets us into the private channel
+    await supabase.realtime.setAuth(access.accessToken);
+    
+    const key = await deriveSessionKey(secret, id);
+    sessionKeyRef.current = key;
+    storeAccessRef.current = { sessionId: id, accessToken: access.accessToken, key };
+    currentAccessRef.current = access;
+    channelSecretRef.current = secret;
 
-    // Reset processed message IDs when creating a new channel
-    processedMessageIds.current.clear();
+    if (!isRejoin) {
+      dispatchConnection('join');
+      reconnectAttemptRef.current = 0;
+      persistedSegmentsRef.current = new Map();
+      
+      // Start a fresh stream, and forget the other participants' ones
+      streamIdRef.current = createStreamId();
+      streamSeqRef.current = 0;
+      sentSegmentsRef.current = [];
+      remoteStreamsRef.current = {};
+      setRemoteStreams({});
+      snapshotRequestsRef.current.clear();
+      warnedSendersRef.current.clear();
+      rejectedPresenceRef.current.clear();
+      presenceSyncedRef.current = false;
+      presentUsersRef.current = {};
+      setPresentUsers({});
+      setCaptureIds(new Set());
+      setRejectedMessages([]);
+    }
 
     // Create a new channel for this session
     const channel = supabase.channel(`session:${id}`, {
       config: {
+        private: true,
         broadcast: {
-          self: true
+          self: true,
+          // Lets sends report whether the server got them, so lost ones can be queued
+          ack: true
+        },
+        presence: {
+          key: userId
         }
       }
     });
 
-    // Subscribe to message events
-    channel
-      .on('broadcast', { event: 'message' }, (payload) => {
-        const newMessage = payload.payload as Message;
-        
-        // Skip if we've already processed this message
-        if (processedMessageIds.current.has(newMessage.messageId)) {
-          return;
-        }
+    // Handlers for the events this hook owns, called with decrypted payloads
+    const handlers: {[event: string]: BroadcastListener} = {
+      message: (payload) => {
+        const message = payload as Message;
         
-        // Mark as processed
-        processedMessageIds.current.add(newMessage.messageId);
-        
-        // Add message to messages array (using a function to avoid closure issues)
-        setMessages(prev => {
-          // Check if message is already in the array (additional deduplication)
-          const messageExists = prev.some(msg => 
-            msg.messageId === newMessage.messageId || 
-            (msg.userId === newMessage.userId && 
-             msg.timestamp === newMessage.timestamp)
-          );
-          
-          if (messageExists) {
-            return prev;
-          }
-          
-          return [...prev, newMessage];
-        });
+        // Our own broadcasts come back to us too
+        if (message.userId === userId) return;
         
-        // Update connected users
-        setConnectedUsers(prev => ({
-          ...prev,
-          [newMessage.userId]: { 
-            name: newMessage.userName, 
-            isRecording: newMessage.isRecording 
+        if (message.kind === 'snapshot-request') {
+          if (!message.targetId || message.targetId === userId) {
+            scheduleSnapshot();
           }
-        }));
-      })
-      .on('broadcast', { event: 'user_joined' }, (payload) => {
-        const { userId: newUserId, userName: newUserName } = payload.payload;
-        
-        // Only show toast if it's not the current user
-        if (newUserId !== userId) {
-          toast.success(`${newUserName} joined the session`);
+          return;
         }
         
-        // Update the connected users list
-        setConnectedUsers(prev => ({
-          ...prev,
-          [newUserId]: { name: newUserName, isRecording: false }
-        }));
-      })
-      .on('broadcast', { event: 'user_left' }, (payload) => {
-        const { userId: leftUserId, userName: leftUserName } = payload.payload;
-        
-        // Only show toast if it's not the current user
-        if (leftUserId !== userId) {
-          toast.info(`${leftUserName} left the session`);
+        const update = applyStreamMessage(remoteStreamsRef.current[message.userId], message);
+        if (update.status === 'gap') {
+          // Something went missing; the sender's snapshot brings us back in step
+          requestSnapshot(message.userId);
+          return;
         }
+        if (update.status === 'duplicate') return;
+        
+        snapshotRequestsRef.current.delete(message.userId);
+        remoteStreamsRef.current = { ...remoteStreamsRef.current, [message.userId]: update.stream };
+        setRemoteStreams(remoteStreamsRef.current);
         
-        // Remove the user from the connected users list
-        setConnectedUsers(prev => {
+        // A new message supersedes whatever the sender had pending
+        setInterimTexts(prev => {
+          if (!(message.userId in prev)) return prev;
           const newState = { ...prev };
-          delete newState[leftUserId];
+          delete newState[message.userId];
           return newState;
         });
+      },
+      interim: (payload) => {
+        const { userId: senderId, text } = payload as InterimMessage;
+        
+        // Our own hypothesis is already shown locally
+        if (senderId === userId) return;
+        
+        setInterimTexts(prev => ({ ...prev, [senderId]: text }));
+      },
+      level: (payload) => {
+        const { userId: senderId, level } = payload as LevelMessage;
+        if (senderId === userId) return;
+        
+        setSpeakerLevels(prev => ({ ...prev, [senderId]: level }));
+      },
+      passphrase_changed: (payload) => {
+        const { userId: senderId } = payload as PassphraseChangedMessage;
+        if (senderId === userId) return;
+        
+        // Our token no longer works for saving or rejoining, so leave rather than fail quietly
+        removedRef.current();
+      }
+    };
+
+    // Every payload arrives encrypted; decrypt it before anything looks at it
+    channel
+      .on('broadcast', { event: '*' }, ({ event, payload }) => {
+        receiveQueueRef.current = receiveQueueRef.current
+          .then(async () => {
+            let decrypted: unknown;
+            try {
+              decrypted = await decryptPayload(key, event, payload);
+            } catch (error) {
+              if (error instanceof DecryptionError) {
+                rejectMessage(event, error);
+                return;
+              }
+              throw error;
+            }
+            
+            handlers[event]?.(decrypted);
+            broadcastListenersRef.current.get(event)?.forEach(listener => listener(decrypted));
+          })
+          .catch(error => console.error(`Error handling ${event}:`, error));
+      })
+      // Presence is the roster: the server drops entries whose connection is gone
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceMeta>();
+        receiveQueueRef.current = receiveQueueRef.current
+          .then(async () => {
+            const users: {[key: string]: ConnectedUser} = {};
+            
+            for (const [presenceKey, metas] of Object.entries(state)) {
+              const meta = metas[metas.length - 1];
+              if (presenceKey === userId || !meta) continue;
+              
+              try {
+                const info = await decryptPayload(key, 'presence', meta.envelope) as PresenceInfo;
+                // The key is chosen by the client; the encrypted sender is what counts
+                if (info.userId !== presenceKey) continue;
+                users[presenceKey] = {
+                  name: info.userName,
+                  isRecording: info.isRecording,
+                  language: info.language,
+                  status: info.status,
+                  lastSeenAt: info.updatedAt,
+                  // Worked out across the whole roster
+                  role: 'peer',
+                  pairedWith: info.pairedWith ?? null
+                };
+              } catch (error) {
+                if (!(error instanceof DecryptionError)) throw error;
+                const ref = meta.presence_ref ?? presenceKey;
+                if (!rejectedPresenceRef.current.has(ref)) {
+                  rejectedPresenceRef.current.add(ref);
+                  rejectMessage('presence', error);
+                }
+              }
+            }
+            
+            applyPresence(users);
+          })
+          .catch(error => console.error('Error handling presence:', error));
       })
       .subscribe((status) => {
+        // Statuses from a channel we've since replaced or left don't matter
+        if (sessionChannelRef.current !== channel) return;
+        
         if (status === 'SUBSCRIBED') {
-          // Announce this user has joined
-          channel.send({
-            type: 'broadcast',
-            event: 'user_joined',
-            payload: { userId, userName }
-          });
+          channelReadyRef.current = true;
+          setIsChannelReady(true);
+          reconnectAttemptRef.current = 0;
+          failedSendsRef.current = 0;
+          dispatchConnection('subscribed');
+          
+          // Join the roster straight away rather than at the next heartbeat
+          trackPresence();
           
-          sessionChannelRef.current = channel;
+          // Catch up on anything queued or missed while the channel was down
+          resyncRef.current();
+        } else {
+          // CHANNEL_ERROR, TIMED_OUT or CLOSED: whatever happened, start over with a fresh channel
+          channelReadyRef.current = false;
+          historyStaleRef.current = true;
+          setIsChannelReady(false);
+          reconnectRef.current();
         }
       });
+    sessionChannelRef.current = channel;
     
     return channel;
+  }, [userId, rejectMessage, applyPresence, trackPresence, dispatchConnection, scheduleSnapshot, requestSnapshot]);
+  
+  // Join the current session's channel again, e.g. after it errored or timed out
+  const rejoinChannel = useCallback(() => {
+    const access = currentAccessRef.current;
+    const secret = channelSecretRef.current;
+    if (!access || !secret || !storeAccessRef.current) return;
+    
+    setupRealtimeChannel(access, secret).catch(error => {
+      console.error('Error rejoining session channel:', error);
+      reconnectRef.current();
+    });
+  }, [setupRealtimeChannel]);
+  
+  reconnectRef.current = () => {
+    const access = currentAccessRef.current;
+    if (!access || !storeAccessRef.current || reconnectTimerRef.current) return;
+    
+    // Coming back online triggers the rejoin instead
+    if (!navigator.onLine) {
+      dispatchConnection('network-lost');
+      return;
+    }
+    
+    if (access.expiresAt <= Date.now() || reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      dispatchConnection('give-up');
+      toast.error('Lost the connection to the session. Your access may have expired, or the passphrase was changed.');
+      return;
+    }
+    
+    dispatchConnection('channel-lost');
+    const delay = getReconnectDelay(reconnectAttemptRef.current);
+    reconnectAttemptRef.current += 1;
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      rejoinChannel();
+    }, delay);
+  };
+  
+  // Retry straight away, e.g. when the user asks to after we gave up
+  const reconnect = useCallback(() => {
+    if (!storeAccessRef.current || channelReadyRef.current) return;
+    
+    reconnectAttemptRef.current = 0;
+    dispatchConnection('network-restored');
+    rejoinChannel();
+  }, [dispatchConnection, rejoinChannel]);
+  
+  // Register this participant and fetch everything said before we arrived
+  const loadHistory = useCallback(async () => {
+    const access = storeAccessRef.current;
+    if (!access) return;
+    
+    try {
+      await saveParticipant(access, userId, userName);
+      const history = await loadSessionHistory(access);
+      setHistorySegments(history.segmentsBySpeaker);
+      setParticipantNames(history.participantNames);
+      setParticipantLastSeen(history.participantLastSeen);
+      historyStaleRef.current = false;
+      
+      if (history.unreadableCount > 0) {
+        toast.warning(`${history.unreadableCount} earlier segments could not be decrypted`);
+      }
+    } catch (error) {
+      console.error('Error loading session history:', error);
+      historyStaleRef.current = true;
+      if (navigator.onLine) {
+        toast.error('Could not load the earlier transcript for this session');
+      }
+    }
   }, [userId, userName]);
   
-  // Set up cleanup on unmount
+  // Write our new or edited segments, and remove ones deleted locally
+  const flushSegments = useCallback(() => {
+    if (persistTimerRef.current) {
+      clearTimeout(persistTimerRef.current);
+      persistTimerRef.current = null;
+    }
+    
+    persistQueueRef.current = persistQueueRef.current.then(async () => {
+      const access = storeAccessRef.current;
+      const segments = pendingPersistRef.current;
+      pendingPersistRef.current = null;
+      if (!access || !segments) return;
+      
+      const finalSegments = segments.filter(segment => segment.isFinal);
+      const current = new Map(finalSegments.map(segment => [segment.id, `${segment.endTime}:${segment.text}`]));
+      const persisted = persistedSegmentsRef.current;
+      const changed = finalSegments.filter(segment => persisted.get(segment.id) !== current.get(segment.id));
+      const removed = [...persisted.keys()].filter(id => !current.has(id));
+      
+      try {
+        await saveSegments(access, changed);
+        await deleteSegments(access, removed);
+        persistedSegmentsRef.current = current;
+        hasUnsavedSegmentsRef.current = false;
+        setHasUnsavedSegments(false);
+      } catch (error) {
+        // Left unmarked, so the next change or reconnect retries these segments
+        console.error('Error saving transcript:', error);
+        hasUnsavedSegmentsRef.current = true;
+        setHasUnsavedSegments(true);
+      }
+    });
+    return persistQueueRef.current;
+  }, []);
+  
+  const persistSegments = useCallback((segments: TranscriptSegment[]) => {
+    if (!storeAccessRef.current) return;
+    
+    latestPersistRef.current = segments;
+    // Saving can't succeed offline; the reconnect handler picks these up
+    if (!navigator.onLine) {
+      hasUnsavedSegmentsRef.current = true;
+      setHasUnsavedSegments(true);
+      return;
+    }
+    
+    pendingPersistRef.current = segments;
+    if (!persistTimerRef.current) {
+      persistTimerRef.current = setTimeout(flushSegments, PERSIST_DEBOUNCE_MS);
+    }
+  }, [flushSegments]);
+  
+  resyncRef.current = () => {
+    replayOutbox();
+    
+    // Messages may have been lost both ways: offer our stream and ask for everyone else's
+    if (streamSeqRef.current > 0 || localSegmentsRef.current.length > 0) {
+      sendSnapshot();
+    }
+    requestSnapshot();
+    
+    if (hasUnsavedSegmentsRef.current && latestPersistRef.current) {
+      pendingPersistRef.current = latestPersistRef.current;
+      flushSegments();
+    }
+    if (historyStaleRef.current) {
+      loadHistory();
+    }
+  };
+  
+  // Track connectivity; coming back online retries anything left unsent
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (channelReadyRef.current) {
+        resyncRef.current();
+      } else {
+        reconnect();
+      }
+    };
+    const handleOffline = () => {
+      setIsOnline(false);
+      dispatchConnection('network-lost');
+    };
+    
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [reconnect, dispatchConnection]);
+  
+  // Rejoin the session this tab was in before a reload, showing the last known conversation at once
+  useEffect(() => {
+    if (resumeAttemptedRef.current || !resumeSession) return;
+    resumeAttemptedRef.current = true;
+    
+    loadRecentSession()
+      .then(async recent => {
+        if (!recent) return;
+        
+        ownerTokenRef.current = recent.access.ownerToken ?? null;
+        setIsSessionOwner(!!recent.access.ownerToken);
+        setSessionId(recent.sessionId);
+        setSessionSecret(recent.secret);
+        setHistorySegments(recent.segmentsBySpeaker);
+        setParticipantNames(recent.participantNames);
+        
+        historyStaleRef.current = true;
+        await setupRealtimeChannel(recent.access, recent.secret);
+        toast.info(`Rejoined session: ${recent.sessionId}`);
+      })
+      .catch(error => console.error('Error restoring session:', error));
+  }, [setupRealtimeChannel, resumeSession]);
+  
+  // Leave the channel on unmount; presence tells everyone else we've gone
   useEffect(() => {
     return () => {
-      // If there's an active session, announce that the user has left
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
       if (sessionId && sessionChannelRef.current) {
-        sessionChannelRef.current.send({
-          type: 'broadcast',
-          event: 'user_left',
-          payload: { userId, userName }
-        }).then(() => {
-          // Then remove the channel
-          supabase.removeChannel(sessionChannelRef.current);
-        });
+        const channel = sessionChannelRef.current;
+        sessionChannelRef.current = null;
+        supabase.removeChannel(channel);
       }
     };
-  }, [sessionId, userId, userName]);
+  }, [sessionId]);
   
-  // Mock creating a new session
-  const createSession = useCallback(() => {
-    // In a real app, this would create a session on the backend
-    const newSessionId = `session-${Math.random().toString(36).substring(2, 10)}`;
-    setSessionId(newSessionId);
+  // Create a new session protected by a passphrase
+  const createSession = useCallback(async (passphrase: string) => {
+    let access: SessionAccess;
+    try {
+      access = await createSecureSession(passphrase);
+    } catch (error) {
+      console.error('Error creating session:', error);
+      toast.error(`Could not create session: ${(error as Error).message}`);
+      return null;
+    }
     
-    // Reset connected users list and add self
-    setConnectedUsers({
-      [userId]: { name: userName, isRecording: false }
-    });
+    // Only the creator's device ever generates the encryption secret
+    const secret = createSessionSecret();
+    
+    ownerTokenRef.current = access.ownerToken ?? null;
+    setIsSessionOwner(!!access.ownerToken);
+    setSessionId(access.sessionId);
+    setSessionSecret(secret);
+    // A pairing from an earlier session means nothing here
+    setPairedWith(null);
+    saveTabPairing(null);
     
     // Set up real-time channel for this session
-    setupRealtimeChannel(newSessionId);
+    await setupRealtimeChannel(access, secret);
+    await loadHistory();
     
-    toast.success(`Created and joined session: ${newSessionId}`);
+    toast.success(`Created and joined session: ${access.sessionId}`);
     
-    return newSessionId;
-  }, [userId, userName, setupRealtimeChannel]);
+    return access.sessionId;
+  }, [setupRealtimeChannel, loadHistory]);
   
-  // Mock joining an existing session
-  const joinSession = useCallback((id: string) => {
+  // Join an existing session; the server checks the passphrase or invite token,
+  // while the encryption secret from the invite link never leaves this device
+  const joinSession = useCallback(async (
+    id: string,
+    credentials: { passphrase: string } | { inviteToken: string },
+    secret: string
+  ) => {
     if (!id) {
       toast.error('Invalid session ID');
-      return;
+      return false;
+    }
+    if (!isValidSessionSecret(secret)) {
+      toast.error('A valid encryption key from the invite link is required');
+      return false;
     }
     
-    // In a real app, this would validate the session ID with the backend
-    setSessionId(id);
+    let access: SessionAccess;
+    try {
+      access = await joinSecureSession(id, credentials);
+    } catch (error) {
+      console.error('Error joining session:', error);
+      toast.error(`Access denied: ${(error as Error).message}`);
+      return false;
+    }
     
-    // Initial users list with just the current user
-    setConnectedUsers({
-      [userId]: { name: userName, isRecording: false }
-    });
+    ownerTokenRef.current = null;
+    setIsSessionOwner(false);
+    setSessionId(id);
+    setSessionSecret(secret);
+    setPairedWith(null);
+    saveTabPairing(null);
     
     // Set up real-time channel for this session
-    setupRealtimeChannel(id);
+    await setupRealtimeChannel(access, secret);
+    await loadHistory();
     
     toast.success(`Joined session: ${id}`);
-  }, [userId, userName, setupRealtimeChannel]);
+    return true;
+  }, [setupRealtimeChannel, loadHistory]);
+  
+  // Invite link that lets someone in without the passphrase, e.g. to pair a phone.
+  // Only the owner can create one; it stops working when it expires or the passphrase changes.
+  const createInviteLink = useCallback(async (expiresInMinutes?: number) => {
+    if (!sessionId || !sessionSecret || !ownerTokenRef.current) {
+      toast.error('Only the session owner can create invite links');
+      return null;
+    }
+    
+    try {
+      const invite = await createSessionInvite(sessionId, ownerTokenRef.current, expiresInMinutes);
+      return {
+        link: buildSessionLink(sessionId, sessionSecret, invite.inviteToken),
+        expiresAt: invite.expiresAt
+      };
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      toast.error(`Could not create an invite link: ${(error as Error).message}`);
+      return null;
+    }
+  }, [sessionId, sessionSecret]);
+  
+  // Replace the passphrase. Everyone else's access stops working at once, so they are told
+  // to leave and must rejoin with the new one. The encryption key in the invite link stays.
+  const rotatePassphrase = useCallback(async (passphrase: string) => {
+    if (!sessionId || !ownerTokenRef.current) {
+      toast.error('Only the session owner can change the passphrase');
+      return false;
+    }
+    
+    try {
+      const access = await rotateSessionPassphrase(sessionId, ownerTokenRef.current, passphrase);
+      await supabase.realtime.setAuth(access.accessToken);
+      if (storeAccessRef.current) {
+        storeAccessRef.current = { ...storeAccessRef.current, accessToken: access.accessToken };
+      }
+      if (currentAccessRef.current) {
+        currentAccessRef.current = { ...currentAccessRef.current, ...access, ownerToken: ownerTokenRef.current ?? undefined };
+      }
+    } catch (error) {
+      console.error('Error rotating passphrase:', error);
+      toast.error(`Could not change passphrase: ${(error as Error).message}`);
+      return false;
+    }
+    
+    sendBroadcast('passphrase_changed', { userId } as PassphraseChangedMessage);
+    toast.success('Passphrase changed. Everyone else has been removed and must rejoin with the new passphrase.');
+    return true;
+  }, [sessionId, userId, sendBroadcast]);
   
   // Disconnect from a session
-  const disconnectSession = useCallback(() => {
+  const disconnectSession = useCallback((notice = 'Disconnected from session') => {
     if (!sessionId || !sessionChannelRef.current) {
       return;
     }
     
-    // Announce that the user has left before disconnecting
-    sessionChannelRef.current.send({
-      type: 'broadcast',
-      event: 'user_left',
-      payload: { userId, userName }
-    }).then(() => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    
+    // Leave the roster at once, then save anything still pending while we still have access
+    const channel = sessionChannelRef.current;
+    Promise.all([
+      flushSegments(),
+      channelReadyRef.current ? channel.untrack() : Promise.resolve()
+    ]).then(() => {
       // Then remove the channel
-      supabase.removeChannel(sessionChannelRef.current);
       sessionChannelRef.current = null;
+      supabase.removeChannel(channel);
+      sessionKeyRef.current = null;
+      storeAccessRef.current = null;
       
       // Clear session data
+      ownerTokenRef.current = null;
+      setIsSessionOwner(false);
       setSessionId('');
-      setMessages([]);
-      setConnectedUsers({});
+      setSessionSecret('');
+      remoteStreamsRef.current = {};
+      setRemoteStreams({});
+      presentUsersRef.current = {};
+      setPresentUsers({});
+      setCaptureIds(new Set());
+      setPairedWith(null);
+      saveTabPairing(null);
+      setParticipantLastSeen({});
+      setInterimTexts({});
+      setRejectedMessages([]);
+      setHistorySegments({});
+      setParticipantNames({});
+      setIsChannelReady(false);
+      setConnectionState('connecting');
+      setQueuedCount(0);
+      setHasUnsavedSegments(false);
+      channelReadyRef.current = false;
+      currentAccessRef.current = null;
+      channelSecretRef.current = null;
+      latestPersistRef.current = null;
+      hasUnsavedSegmentsRef.current = false;
       
-      toast.info(`Disconnected from session`);
+      removeRecentSession(sessionId)
+        .catch(error => console.error('Error forgetting session:', error));
+      
+      toast.info(notice);
     });
-  }, [sessionId, userId, userName]);
+  }, [sessionId, flushSegments]);
+  
+  removedRef.current = () => {
+    disconnectSession('The session passphrase was changed. Rejoin with the new passphrase to continue.');
+  };
   
   // Update user name
   const updateUserName = useCallback((newName: string) => {
     if (!newName.trim()) return;
     
     setUserName(newName);
+    saveTabIdentity({ userId, userName: newName });
     
-    // Update connected users
+    // Presence picks up the new name; the stored one is for those who join later
     if (sessionId) {
-      setConnectedUsers(prev => ({
-        ...prev,
-        [userId]: { ...prev[userId], name: newName }
-      }));
+      if (storeAccessRef.current) {
+        saveParticipant(storeAccessRef.current, userId, newName)
+          .catch(error => console.error('Error saving display name:', error));
+      }
     }
   }, [userId, sessionId]);
   
-  // Send a message to all users
-  const broadcastMessage = useCallback((text: string, isRecording: boolean) => {
-    if (!sessionId || !sessionChannelRef.current) return;
+  // Messages carry the dictation language; presence announces it below
+  useEffect(() => {
+    languageRef.current = language;
+  }, [language]);
+  
+  presenceInfoRef.current = {
+    userId,
+    userName,
+    isRecording: isLocalRecording,
+    language,
+    status: localStatus,
+    pairedWith
+  };
+  
+  // Republish presence whenever something others see about us changes
+  useEffect(() => {
+    if (isChannelReady) trackPresence();
+  }, [userName, language, isLocalRecording, localStatus, pairedWith, isChannelReady, trackPresence]);
+  
+  // Heartbeat: refresh presence and the stored last-seen time, and time out silent participants
+  useEffect(() => {
+    if (!isChannelReady) return;
     
-    // Check if message content has changed significantly
-    const textChanged = text !== latestMessageRef.current;
-    const recordingStatusChanged = isRecording !== isRecordingRef.current;
+    const timer = setInterval(() => {
+      trackPresence();
+      setPresenceClock(Date.now());
+      const access = storeAccessRef.current;
+      if (access) {
+        saveParticipant(access, userId, presenceInfoRef.current?.userName ?? userName)
+          .catch(error => console.error('Error saving last seen time:', error));
+      }
+    }, PRESENCE_HEARTBEAT_MS);
     
-    // Throttle updates to at most 1 per second unless recording status changes
-    const now = Date.now();
-    const shouldThrottle = !recordingStatusChanged && (now - lastBroadcastTimeRef.current < 1000);
+    return () => clearInterval(timer);
+  }, [isChannelReady, trackPresence, userId, userName]);
+  
+  // Idle after a while without input or while the tab is hidden, but never while recording
+  useEffect(() => {
+    if (!sessionId) return;
     
-    // Only broadcast if necessary changes and not throttled
-    if ((!textChanged && !recordingStatusChanged) || shouldThrottle) {
-      return;
-    }
+    let lastActivity = Date.now();
+    const update = () => {
+      const away = document.hidden || Date.now() - lastActivity > IDLE_AFTER_MS;
+      setLocalStatus(away && !isRecordingRef.current ? 'idle' : 'online');
+    };
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      update();
+    };
     
-    // Update refs
-    latestMessageRef.current = text;
-    isRecordingRef.current = isRecording;
-    lastBroadcastTimeRef.current = now;
+    const timer = setInterval(update, PRESENCE_HEARTBEAT_MS / 2);
+    document.addEventListener('visibilitychange', update);
+    window.addEventListener('pointerdown', handleActivity);
+    window.addEventListener('keydown', handleActivity);
+    update();
     
-    const messageId = `${userId}-${now}`;
-    const newMessage: Message = {
-      userId,
-      userName,
-      text,
-      isRecording,
-      timestamp: now,
-      messageId
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', update);
+      window.removeEventListener('pointerdown', handleActivity);
+      window.removeEventListener('keydown', handleActivity);
     };
+  }, [sessionId, isLocalRecording]);
+  
+  // Everyone seen in the session: present participants plus offline ones from history
+  const roster = useMemo(() => {
+    if (!sessionId) return {};
     
-    // Add to processed list before sending to prevent duplicates
-    processedMessageIds.current.add(messageId);
+    const result: {[key: string]: ConnectedUser} = {};
+    Object.entries(participantNames).forEach(([id, name]) => {
+      result[id] = {
+        name,
+        isRecording: false,
+        status: 'offline',
+        lastSeenAt: participantLastSeen[id] ?? 0,
+        role: 'peer'
+      };
+    });
+    Object.entries(presentUsers).forEach(([id, user]) => {
+      result[id] = presenceClock - user.lastSeenAt > PRESENCE_TIMEOUT_MS
+        ? { ...user, isRecording: false, status: 'offline' }
+        : user;
+    });
+    result[userId] = {
+      name: userName,
+      isRecording: isLocalRecording,
+      language,
+      status: localStatus,
+      lastSeenAt: presenceClock,
+      role: 'peer',
+      pairedWith
+    };
     
-    // Send the message via the real-time channel
-    sessionChannelRef.current.send({
-      type: 'broadcast',
-      event: 'message',
-      payload: newMessage
+    // Only pairings with someone still here count
+    const pairings = Object.fromEntries(Object.entries(result)
+      .filter(([, user]) => user.status !== 'offline')
+      .map(([id, user]) => [id, user.pairedWith]));
+    Object.keys(result).forEach(id => {
+      if (result[id].status !== 'offline') {
+        result[id] = { ...result[id], role: getDeviceRole(id, pairings) };
+      }
     });
+    return result;
+  }, [
+    sessionId, participantNames, participantLastSeen, presentUsers, presenceClock,
+    userId, userName, isLocalRecording, language, localStatus, pairedWith
+  ]);
+  
+  // Participants who are here right now, idle or not
+  const connectedUsers = useMemo(() => Object.fromEntries(
+    Object.entries(roster).filter(([, user]) => user.status !== 'offline')
+  ), [roster]);
+  
+  // Share a change to our transcript as a numbered delta, coalescing rapid changes
+  const broadcastMessage = useCallback((segments: TranscriptSegment[]) => {
+    localSegmentsRef.current = segments;
+    if (!sessionId || !sessionChannelRef.current || messageTimerRef.current) return;
     
-    // Also update our local state - using a function to avoid closure issues
-    setMessages(prev => {
-      // Check if message is already in the array (additional deduplication)
-      const messageExists = prev.some(msg => 
-        msg.messageId === messageId || 
-        (msg.userId === userId && 
-         Math.abs(msg.timestamp - now) < 100 && 
-         msg.text === text)
-      );
+    const flush = () => {
+      messageTimerRef.current = null;
+      const op = diffSegments(sentSegmentsRef.current, localSegmentsRef.current);
+      if (!op || !sessionChannelRef.current) return;
       
-      if (messageExists) {
-        return prev;
+      streamSeqRef.current += 1;
+      sentSegmentsRef.current = localSegmentsRef.current;
+      const delta: TranscriptDelta = {
+        kind: 'delta',
+        userId,
+        streamId: streamIdRef.current,
+        seq: streamSeqRef.current,
+        timestamp: Date.now(),
+        op
+      };
+      sendBroadcast('message', delta);
+      
+      // Keep the window open so rapid updates collapse into one send
+      messageTimerRef.current = setTimeout(flush, MESSAGE_THROTTLE_MS);
+    };
+    
+    flush();
+  }, [userId, sessionId, sendBroadcast]);
+  
+  // Share the current interim hypothesis, throttled and coalesced to the latest value
+  const broadcastInterim = useCallback((text: string) => {
+    if (!sessionId || !sessionChannelRef.current) return;
+    
+    pendingInterimRef.current = text;
+    if (interimTimerRef.current) return;
+    
+    const flush = () => {
+      interimTimerRef.current = null;
+      const pending = pendingInterimRef.current;
+      pendingInterimRef.current = null;
+      
+      if (pending === null || pending === lastInterimRef.current || !sessionChannelRef.current) {
+        return;
       }
       
-      return [...prev, newMessage];
-    });
+      lastInterimRef.current = pending;
+      sendBroadcast('interim', { userId, text: pending } as InterimMessage);
+      
+      // Keep the window open so rapid updates collapse into one send
+      interimTimerRef.current = setTimeout(flush, INTERIM_THROTTLE_MS);
+    };
     
-    // Update the user's recording status
-    setConnectedUsers(prev => ({
-      ...prev,
-      [userId]: { ...prev[userId], isRecording }
-    }));
-  }, [userId, userName, sessionId]);
+    flush();
+  }, [userId, sessionId, sendBroadcast]);
+  
+  // Share the local microphone level at a low rate, skipping changes too small to see
+  const broadcastLevel = useCallback((level: number) => {
+    if (!sessionId || !sessionChannelRef.current) return;
+    
+    pendingLevelRef.current = level;
+    if (levelTimerRef.current) return;
+    
+    const flush = () => {
+      levelTimerRef.current = null;
+      const pending = pendingLevelRef.current;
+      pendingLevelRef.current = null;
+      
+      if (
+        pending === null ||
+        Math.abs(pending - lastLevelRef.current) < LEVEL_CHANGE_THRESHOLD ||
+        !sessionChannelRef.current
+      ) {
+        return;
+      }
+      
+      lastLevelRef.current = pending;
+      sendBroadcast('level', { userId, level: Math.round(pending * 100) / 100 } as LevelMessage);
+      levelTimerRef.current = setTimeout(flush, LEVEL_THROTTLE_MS);
+    };
+    
+    flush();
+  }, [userId, sessionId, sendBroadcast]);
   
-  const updateTranscription = useCallback((text: string) => {
+  // Clear any pending transcript, interim or level broadcast when leaving a session
+  useEffect(() => {
+    return () => {
+      if (messageTimerRef.current) {
+        clearTimeout(messageTimerRef.current);
+        messageTimerRef.current = null;
+      }
+      if (snapshotTimerRef.current) {
+        clearTimeout(snapshotTimerRef.current);
+        snapshotTimerRef.current = null;
+      }
+      if (interimTimerRef.current) {
+        clearTimeout(interimTimerRef.current);
+        interimTimerRef.current = null;
+      }
+      pendingInterimRef.current = null;
+      lastInterimRef.current = '';
+      if (levelTimerRef.current) {
+        clearTimeout(levelTimerRef.current);
+        levelTimerRef.current = null;
+      }
+      pendingLevelRef.current = null;
+      lastLevelRef.current = 0;
+      setSpeakerLevels({});
+    };
+  }, [sessionId]);
+  
+  const updateTranscription = useCallback((segments: TranscriptSegment[]) => {
     if (!sessionId) return;
     
-    // Only broadcast if text has meaningfully changed
-    if (text === latestMessageRef.current) return;
+    // A microphone's text is saved by the display it feeds
+    if (!pairedWithRef.current) {
+      persistSegments(segments);
+    }
+    broadcastMessage(segments);
+  }, [broadcastMessage, persistSegments, sessionId]);
+  
+  // Use this device only as a microphone for another participant, or stop (null)
+  const pairWith = useCallback((displayId: string | null) => {
+    setPairedWith(displayId);
+    saveTabPairing(displayId);
+  }, []);
+  
+  // Presence carries the recording status to the others
+  const updateRecordingStatus = useCallback((isRecording: boolean) => {
+    if (!sessionId) return;
     
-    // If the new text is just the old text with a small addition,
-    // make sure we don't send updates too frequently
-    if (text.startsWith(latestMessageRef.current) && 
-        text.length - latestMessageRef.current.length < 5 &&
-        Date.now() - lastBroadcastTimeRef.current < 1000) {
-      return;
+    isRecordingRef.current = isRecording;
+    setIsLocalRecording(isRecording);
+  }, [sessionId]);
+  
+  // Send an arbitrary event over the session channel
+  const sendEvent = useCallback((event: string, payload: unknown) => {
+    sendBroadcast(event, payload);
+  }, [sendBroadcast]);
+  
+  // Listen for an event on the session channel, or for the presence events 'user_joined' and
+  // 'user_left'; returns an unsubscribe function
+  const onEvent = useCallback((event: string, listener: BroadcastListener) => {
+    const listeners = broadcastListenersRef.current;
+    if (!listeners.has(event)) {
+      listeners.set(event, new Set());
     }
+    listeners.get(event)!.add(listener);
     
-    broadcastMessage(text, isRecordingRef.current);
-  }, [broadcastMessage, sessionId]);
+    return () => {
+      listeners.get(event)?.delete(listener);
+    };
+  }, []);
+  
+  // Each remote participant's transcript stream: saved history, superseded by their live stream
+  const remoteSegments = useMemo(() => {
+    const { [userId]: _ownHistory, ...streams } = historySegments;
+    Object.entries(remoteStreams).forEach(([id, stream]) => {
+      if (id !== userId && !captureIds.has(id)) {
+        streams[id] = stream.segments;
+      }
+    });
+    return streams;
+  }, [remoteStreams, userId, historySegments, captureIds]);
+  
+  // Live streams of the capture devices paired with us, waiting to be taken into our transcript
+  const capturedStreams = useMemo(() => {
+    const streams: {[key: string]: TranscriptSegment[]} = {};
+    Object.entries(presentUsers).forEach(([id, user]) => {
+      if (user.pairedWith === userId && remoteStreams[id]) {
+        streams[id] = remoteStreams[id].segments;
+      }
+    });
+    return streams;
+  }, [presentUsers, remoteStreams, userId]);
+  
+  // Keep the session and what's been said on this device, for reloads and offline use.
+  // Also reruns when the channel comes up, since the access is only known by then.
+  useEffect(() => {
+    const access = currentAccessRef.current;
+    if (!sessionId || !sessionSecret || !access || access.sessionId !== sessionId) return;
+    
+    const timer = setTimeout(() => {
+      saveRecentSession({
+        sessionId,
+        access: currentAccessRef.current ?? access,
+        secret: sessionSecret,
+        segmentsBySpeaker: remoteSegments,
+        participantNames
+      }).catch(error => console.error('Error saving session locally:', error));
+    }, RECENT_SESSION_SAVE_DELAY_MS);
+    
+    return () => clearTimeout(timer);
+  }, [sessionId, sessionSecret, remoteSegments, participantNames, isChannelReady]);
+  
+  const syncStatus: SyncStatus = !sessionId
+    ? 'local'
+    : !isOnline
+      ? 'offline'
+      : !isChannelReady || queuedCount > 0 || hasUnsavedSegments
+        ? 'pending'
+        : 'synced';
+  
+  // Invite link carrying the encryption secret in its fragment
+  const sessionLink = useMemo(() => (
+    sessionId && sessionSecret ? buildSessionLink(sessionId, sessionSecret) : ''
+  ), [sessionId, sessionSecret]);
   
-  const updateRecordingStatus = useCallback((isRecording: boolean) => {
-    if (!sessionId || isRecording === isRecordingRef.current) return;
-    
-    // Get the latest message text or empty string
-    const latestMessage = messages.length > 0 ? 
-      messages.find(msg => msg.userId === userId) : null;
-    const currentText = latestMessage?.text || '';
-    
-    broadcastMessage(currentText, isRecording);
-  }, [broadcastMessage, messages, userId, sessionId]);
-  
-  // Helper function to get the latest message from a specific user
-  const getLatestUserMessage = useCallback((targetUserId: string) => {
-    // Filter messages by the target user and get the latest one
-    const userMessages = messages.filter(msg => msg.userId === targetUserId);
-    return userMessages.length > 0 ? userMessages[userMessages.length - 1] : null;
-  }, [messages]);
-  
-  // Get the latest message from the current user
-  const getCurrentUserMessage = useCallback(() => {
-    return getLatestUserMessage(userId);
-  }, [getLatestUserMessage, userId]);
-
   return {
     userId,
     userName,
     sessionId,
-    messages,
     connectedUsers,
+    interimTexts,
+    speakerLevels,
+    remoteSegments,
+    capturedStreams,
+    rejectedMessages,
+    participantNames,
+    roster,
+    pairedWith,
+    pairWith,
+    sessionLink,
+    syncStatus,
+    connectionState,
+    queuedCount,
     broadcastMessage,
+    broadcastInterim,
+    broadcastLevel,
+    sendEvent,
+    onEvent,
     updateTranscription,
     updateRecordingStatus,
-    getCurrentUserMessage,
-    getLatestUserMessage,
+    isSessionOwner,
     createSession,
     joinSession,
+    rotatePassphrase,
+    createInviteLink,
     disconnectSession,
+    reconnect,
     updateUserName
   };
 }
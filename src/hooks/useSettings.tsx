@@ -0,0 +1,16 @@
+import { useState, useCallback } from 'react';
+import { AppSettings, loadSettings, saveSettings } from '@/lib/settings';
+
+export function useSettings() {
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<AppSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CharId, createTextDocument, DocOperation, TextDocument } from '@/lib/crdt';
+
+type DocOpsMessage = {
+  userId: string;
+  ops: DocOperation[];
+};
+
+type DocCursorMessage = {
+  userId: string;
+  anchor: CharId | null;
+};
+
+// Cursor moves are cosmetic, so send them less often than edits
+const CURSOR_THROTTLE_MS = 100;
+
+interface SharedDocumentOptions {
+  sessionId: string;
+  userId: string;
+  sendEvent: (event: string, payload: unknown) => void;
+  onEvent: (event: string, listener: (payload: unknown) => void) => () => void;
+}
+
+export function useSharedDocument({ sessionId, userId, sendEvent, onEvent }: SharedDocumentOptions) {
+  const [text, setText] = useState('');
+  const [remoteCursors, setRemoteCursors] = useState<{[key: string]: number}>({});
+  const docRef = useRef<TextDocument>(createTextDocument(userId));
+  const cursorAnchorsRef = useRef<{[key: string]: CharId | null}>({});
+  const lastCursorSentRef = useRef(0);
+
+  // Caret positions shift as text changes, so recompute them from their anchors
+  const refreshCursors = useCallback(() => {
+    const positions: {[key: string]: number} = {};
+    Object.entries(cursorAnchorsRef.current).forEach(([cursorUserId, anchor]) => {
+      positions[cursorUserId] = docRef.current.positionOf(anchor);
+    });
+    setRemoteCursors(positions);
+  }, []);
+
+  // Start a fresh document for every session
+  useEffect(() => {
+    docRef.current = createTextDocument(userId);
+    cursorAnchorsRef.current = {};
+    setText('');
+    setRemoteCursors({});
+  }, [sessionId, userId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const unsubscribeOps = onEvent('doc_ops', (payload) => {
+      const { userId: senderId, ops } = payload as DocOpsMessage;
+      if (senderId === userId) return;
+
+      if (docRef.current.apply(ops)) {
+        setText(docRef.current.getText());
+        refreshCursors();
+      }
+    });
+
+    const unsubscribeCursor = onEvent('doc_cursor', (payload) => {
+      const { userId: senderId, anchor } = payload as DocCursorMessage;
+      if (senderId === userId) return;
+
+      cursorAnchorsRef.current = { ...cursorAnchorsRef.current, [senderId]: anchor };
+      refreshCursors();
+    });
+
+    // Bring late joiners up to date with everything typed so far
+    const unsubscribeJoined = onEvent('user_joined', (payload) => {
+      const { userId: newUserId } = payload as { userId: string };
+      if (newUserId === userId) return;
+
+      const ops = docRef.current.snapshot();
+      if (ops.length > 0) {
+        sendEvent('doc_ops', { userId, ops } as DocOpsMessage);
+      }
+    });
+
+    const unsubscribeLeft = onEvent('user_left', (payload) => {
+      const { userId: leftUserId } = payload as { userId: string };
+      const { [leftUserId]: _removed, ...rest } = cursorAnchorsRef.current;
+      cursorAnchorsRef.current = rest;
+      refreshCursors();
+    });
+
+    return () => {
+      unsubscribeOps();
+      unsubscribeCursor();
+      unsubscribeJoined();
+      unsubscribeLeft();
+    };
+  }, [sessionId, userId, sendEvent, onEvent, refreshCursors]);
+
+  const updateCursor = useCallback((position: number) => {
+    const now = Date.now();
+    if (now - lastCursorSentRef.current < CURSOR_THROTTLE_MS) return;
+    lastCursorSentRef.current = now;
+
+    sendEvent('doc_cursor', {
+      userId,
+      anchor: docRef.current.anchorAt(position)
+    } as DocCursorMessage);
+  }, [userId, sendEvent]);
+
+  // Turn a local edit into incremental operations and share them
+  const updateText = useCallback((newText: string, cursorPosition?: number) => {
+    const ops = docRef.current.edit(newText);
+    if (ops.length === 0) return;
+
+    setText(docRef.current.getText());
+    refreshCursors();
+    sendEvent('doc_ops', { userId, ops } as DocOpsMessage);
+
+    if (cursorPosition !== undefined) {
+      // Always send the caret after an edit so peers see where typing happens
+      lastCursorSentRef.current = 0;
+      updateCursor(cursorPosition);
+    }
+  }, [userId, sendEvent, refreshCursors, updateCursor]);
+
+  return {
+    text,
+    remoteCursors,
+    updateText,
+    updateCursor
+  };
+}
@@ -1,117 +1,438 @@
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { toast } from 'sonner';
+import { resolveSpeechEngine, SpeechEngine, SpeechEngineFactory, SpeechEngineId } from '@/lib/speech';
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+import type { MicrophoneSettings } from '@/lib/microphone';
+import { DEFAULT_VOICE_ACTIVITY_SETTINGS, VoiceActivityEvent, VoiceActivitySettings } from '@/lib/vad';
+import { useVoiceActivity } from '@/hooks/useVoiceActivity';
+import type { PostProcessor } from '@/lib/postProcessing';
+import {
+  applyTextEdit,
+  createSegment,
+  joinTranscript,
+  SegmentAudio,
+  segmentsToText,
+  TranscriptSegment,
+} from '@/lib/transcript';
+import {
+  capitalizeFirst,
+  parseVoiceCommands,
+  VoiceCommand,
+  VoiceToken,
+} from '@/lib/voiceCommands';
 
-interface SpeechRecognitionHook {
+export interface SpeechRecognitionHook {
+  // Flat transcript, derived from the segments
   text: string;
+  // Unconfirmed hypothesis for the words currently being spoken
+  interimText: string;
+  interimSegment: TranscriptSegment | null;
+  segments: TranscriptSegment[];
   isRecording: boolean;
+  // True while the engine ended on its own and is being restarted
+  isReconnecting: boolean;
   startRecording: () => void;
   stopRecording: () => void;
   toggleRecording: () => void;
   resetText: () => void;
+  // Apply a free-form edit of the flat text, keeping untouched segments intact
   setText: (newText: string) => void;
+  setSegments: (segments: TranscriptSegment[]) => void;
+  updateSegment: (id: string, text: string) => void;
 }
 
-export function useSpeechRecognition(): SpeechRecognitionHook {
-  const [text, setText] = useState('');
+// Delays between automatic restarts, growing while restarts keep failing
+const RESTART_BACKOFF_MS = [250, 1000, 2000, 4000, 8000];
+// A session that ends sooner than this after starting counts as a failed restart
+const MIN_HEALTHY_SESSION_MS = 1000;
+// Shown when no engine works here, e.g. Firefox before a speech server is set
+const UNSUPPORTED_MESSAGE =
+  'Speech recognition is not built into this browser. Set a streaming server under Speech engine, or try Chrome or Edge.';
+
+interface SpeechRecognitionOptions {
+  engineId?: SpeechEngineId;
+  serverUrl?: string;
+  lang?: string;
+  microphone?: MicrophoneSettings;
+  // Splits segments at pauses, drops noise and stops after long silence
+  voiceActivity?: VoiceActivitySettings;
+  // Attributed as the speaker of locally dictated segments
+  speakerId?: string;
+  // Spoken commands applied between the recognizer and the text; empty disables them
+  voiceCommands?: VoiceCommand[];
+  // Cleans up recognized text (punctuation, replacements) before it is committed
+  postProcess?: PostProcessor;
+  // Overrides engine selection entirely, e.g. to drive the hook with a fake engine
+  engineFactory?: SpeechEngineFactory;
+  // Locates an utterance (epoch milliseconds) in the audio being recorded, if any
+  getAudioLink?: (startTime: number, endTime: number) => SegmentAudio | undefined;
+  // Called with the segments a reset (button, shortcut or voice command) just cleared
+  onReset?: (cleared: TranscriptSegment[]) => void;
+  // Handles the spoken clear command instead of a plain reset, e.g. to save the text first
+  onClearRequested?: () => void;
+}
+
+export function useSpeechRecognition({
+  engineId = 'web-speech',
+  serverUrl,
+  lang = DEFAULT_LANGUAGE,
+  microphone,
+  voiceActivity = DEFAULT_VOICE_ACTIVITY_SETTINGS,
+  speakerId = 'local',
+  voiceCommands = [],
+  postProcess,
+  engineFactory,
+  getAudioLink,
+  onReset,
+  onClearRequested,
+}: SpeechRecognitionOptions = {}): SpeechRecognitionHook {
+  const [segments, setSegmentsState] = useState<TranscriptSegment[]>([]);
+  const [interimSegment, setInterimSegment] = useState<TranscriptSegment | null>(null);
   const [isRecording, setIsRecording] = useState(false);
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const engineRef = useRef<SpeechEngine | null>(null);
+  const stopRecordingRef = useRef<() => void>(() => {});
+  // Whether the user still wants to be recording, independent of the engine's state
+  const wantsRecordingRef = useRef(false);
+  const sessionStartedAtRef = useRef(0);
+  const failedRestartsRef = useRef(0);
+  const restartTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const previousTranscriptionsRef = useRef<Set<string>>(new Set());
   const lastTranscriptRef = useRef<string>('');
+  const langRef = useRef(lang);
+  // Language of the running engine session, which can lag behind langRef while switching
+  const sessionLangRef = useRef(lang);
+  const segmentsRef = useRef<TranscriptSegment[]>([]);
+  const speakerIdRef = useRef(speakerId);
+  speakerIdRef.current = speakerId;
+  // When the utterance currently being recognized started, taken from its first interim result
+  const utteranceStartRef = useRef<number | null>(null);
+  // When voice activity detection last heard the speaker stop
+  const utteranceEndRef = useRef<number | null>(null);
+  const hasInterimRef = useRef(false);
+  // The engine was stopped at a pause to close the segment, and should resume at once
+  const splitRequestedRef = useRef(false);
+  // Whether detection has heard speech since the last final result
+  const heardSpeechRef = useRef(false);
+  const isSpeakingRef = useRef(false);
+  const isDetectingRef = useRef(false);
+  const voiceCommandsRef = useRef(voiceCommands);
+  voiceCommandsRef.current = voiceCommands;
+  const postProcessRef = useRef(postProcess);
+  postProcessRef.current = postProcess;
+  const getAudioLinkRef = useRef(getAudioLink);
+  getAudioLinkRef.current = getAudioLink;
+  const onResetRef = useRef(onReset);
+  onResetRef.current = onReset;
+  const onClearRequestedRef = useRef(onClearRequested);
+  onClearRequestedRef.current = onClearRequested;
+  const capitalizeNextRef = useRef(false);
+  const resetTextRef = useRef<() => void>(() => {});
+  const handleFinalTranscriptRef = useRef<(transcript: string, confidence: number | null) => void>(() => {});
+
+  const text = useMemo(() => segmentsToText(segments), [segments]);
 
-  // Initialize speech recognition on component mount
+  // Run the post-processor with what it needs to know about the transcript so far
+  const processText = useCallback((text: string, endsAtPause: boolean) => {
+    if (!postProcessRef.current) return text;
+    const previous = segmentsRef.current[segmentsRef.current.length - 1];
+    return postProcessRef.current(text, {
+      previousText: previous?.text ?? '',
+      endsAtPause,
+      language: sessionLangRef.current,
+    });
+  }, []);
+
+  // Keep the ref and state in sync so handlers always see the latest segments
+  const replaceSegments = useCallback((next: TranscriptSegment[]) => {
+    segmentsRef.current = next;
+    setSegmentsState(next);
+  }, []);
+
+  const clearInterim = useCallback(() => {
+    setInterimSegment(null);
+  }, []);
+
+  // Create the speech engine on mount, and again whenever the engine settings change
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      // Check for SpeechRecognition support by testing window object properties
-      const SpeechRecognitionAPI = 
-        // Using 'in' operator is more reliable for TypeScript
-        'SpeechRecognition' in window 
-          ? window['SpeechRecognition' as keyof Window] as unknown as SpeechRecognitionConstructor
-          : 'webkitSpeechRecognition' in window 
-            ? window['webkitSpeechRecognition' as keyof Window] as unknown as SpeechRecognitionConstructor
-            : null;
-            
-      if (SpeechRecognitionAPI) {
-        recognitionRef.current = new SpeechRecognitionAPI();
-        
-        // Performance optimizations
-        recognitionRef.current.continuous = true;
-        recognitionRef.current.interimResults = false; // Only get final results for better performance
-        recognitionRef.current.lang = 'en-US';
-        recognitionRef.current.maxAlternatives = 1; // Limit alternatives for faster processing
-
-        recognitionRef.current.onresult = (event: Event) => {
-          // Type assertion to use the SpeechRecognitionEvent interface
-          const speechEvent = event as unknown as SpeechRecognitionEvent;
-          let finalTranscript = '';
-
-          // Process only from the last result index for better performance
-          for (let i = speechEvent.resultIndex; i < speechEvent.results.length; i++) {
-            const transcript = speechEvent.results[i][0].transcript;
-            
-            if (speechEvent.results[i].isFinal) {
-              finalTranscript += transcript;
-            }
-          }
+    const engineOptions = { lang: langRef.current, serverUrl, microphone };
+    const factory = engineFactory ?? resolveSpeechEngine(engineId, engineOptions);
 
-          if (finalTranscript && !previousTranscriptionsRef.current.has(finalTranscript)) {
-            // Use functional update to avoid stale closure issues
-            setText((prevText) => {
-              // Add a space if needed and append new text
-              const newText = prevText ? `${prevText} ${finalTranscript}` : finalTranscript;
-              
-              // Track processed transcripts to avoid duplicates
-              previousTranscriptionsRef.current.add(finalTranscript);
-              lastTranscriptRef.current = finalTranscript;
-              
-              return newText;
-            });
-          }
-        };
-
-        recognitionRef.current.onerror = (event: Event) => {
-          const error = event as unknown as { error: string };
-          console.error('Speech recognition error', error);
-          
-          if (error.error === 'no-speech') {
-            // This is a common error, don't show toast for it
-            return;
-          }
-          
-          if (error.error === 'audio-capture') {
-            toast.error('Could not access microphone. Check permissions.');
-            stopRecording();
-            return;
-          }
-          
-          if (error.error === 'network') {
-            toast.error('Network error occurred. Check your connection.');
-            stopRecording();
-            return;
-          }
-          
-          toast.error(`Error: ${error.error}`);
-          stopRecording();
-        };
-      } else {
-        toast.error('Speech recognition is not supported in your browser. Try Chrome or Edge.');
-      }
+    if (!factory) {
+      toast.error(UNSUPPORTED_MESSAGE);
+      return;
     }
 
-    return () => {
-      if (recognitionRef.current) {
+    let engine: SpeechEngine;
+    try {
+      engine = factory.create(engineOptions);
+    } catch (e) {
+      console.error('Error creating speech engine', e);
+      toast.error(UNSUPPORTED_MESSAGE);
+      return;
+    }
+    engineRef.current = engine;
+
+    engine.onResult(({ transcript, isFinal, confidence }) => {
+      if (!isFinal) {
+        const interim = transcript.trim();
+        hasInterimRef.current = !!interim;
+        if (!interim) {
+          setInterimSegment(null);
+          return;
+        }
+
+        utteranceStartRef.current ??= Date.now();
+        setInterimSegment(prev => ({
+          ...(prev ?? createSegment({
+            speakerId: speakerIdRef.current,
+            language: sessionLangRef.current,
+            text: '',
+            startTime: utteranceStartRef.current,
+            isFinal: false,
+          })),
+          text: processText(interim, false),
+          endTime: Date.now(),
+        }));
+        return;
+      }
+
+      // The final text replaces whatever hypothesis was pending
+      setInterimSegment(null);
+      hasInterimRef.current = false;
+
+      // Recognizers make up words from background noise; drop results nobody spoke
+      const isNoise = isDetectingRef.current && !heardSpeechRef.current;
+      if (transcript && !isNoise && !previousTranscriptionsRef.current.has(transcript)) {
+        // Track processed transcripts to avoid duplicates
+        previousTranscriptionsRef.current.add(transcript);
+        lastTranscriptRef.current = transcript;
+        handleFinalTranscriptRef.current(transcript, confidence ?? null);
+      }
+      utteranceStartRef.current = null;
+      utteranceEndRef.current = null;
+      heardSpeechRef.current = isSpeakingRef.current;
+    });
+
+    engine.onError((error) => {
+      console.error('Speech recognition error', error);
+      
+      if (error.error === 'no-speech' || error.error === 'aborted') {
+        // These are common errors, don't show toast for them
+        return;
+      }
+      
+      if (error.error === 'audio-capture') {
+        toast.error('Could not access microphone. Check permissions.');
+        stopRecordingRef.current();
+        return;
+      }
+      
+      if (error.error === 'network') {
+        // The engine will end next, and the restart logic retries with backoff
+        return;
+      }
+      
+      toast.error(`Error: ${error.error}`);
+      stopRecordingRef.current();
+    });
+
+    engine.onAudioEnd(() => {
+      if (wantsRecordingRef.current && !splitRequestedRef.current) {
+        setIsReconnecting(true);
+      }
+    });
+
+    const handleEnd = () => {
+      setInterimSegment(null);
+      hasInterimRef.current = false;
+      utteranceStartRef.current = null;
+      utteranceEndRef.current = null;
+
+      if (!wantsRecordingRef.current) {
+        splitRequestedRef.current = false;
+        setIsReconnecting(false);
+        return;
+      }
+
+      // Ended on purpose at a pause, so carry on listening without a backoff
+      if (splitRequestedRef.current) {
+        splitRequestedRef.current = false;
         try {
-          recognitionRef.current.stop();
+          sessionStartedAtRef.current = Date.now();
+          sessionLangRef.current = langRef.current;
+          engine.start();
+          return;
         } catch (e) {
-          console.error('Error stopping recognition on unmount', e);
+          console.error('Error resuming recognition after a pause', e);
         }
       }
+
+      // Sessions that die right after starting mean restarts are failing
+      const sessionLength = Date.now() - sessionStartedAtRef.current;
+      failedRestartsRef.current = sessionLength < MIN_HEALTHY_SESSION_MS
+        ? failedRestartsRef.current + 1
+        : 0;
+
+      if (failedRestartsRef.current >= RESTART_BACKOFF_MS.length) {
+        toast.error('Speech recognition keeps disconnecting. Check your connection.');
+        stopRecordingRef.current();
+        return;
+      }
+
+      setIsReconnecting(true);
+      restartTimerRef.current = setTimeout(() => {
+        restartTimerRef.current = null;
+        if (!wantsRecordingRef.current) return;
+
+        try {
+          sessionStartedAtRef.current = Date.now();
+          sessionLangRef.current = langRef.current;
+          engine.start();
+          setIsReconnecting(false);
+        } catch (e) {
+          console.error('Error restarting recognition', e);
+          // Treat it like an immediate end so the backoff keeps growing
+          handleEnd();
+        }
+      }, RESTART_BACKOFF_MS[failedRestartsRef.current]);
     };
-  }, []);
+    engine.onEnd(handleEnd);
+
+    return () => {
+      if (restartTimerRef.current) {
+        clearTimeout(restartTimerRef.current);
+        restartTimerRef.current = null;
+      }
+      wantsRecordingRef.current = false;
+      try {
+        engine.stop();
+      } catch (e) {
+        console.error('Error stopping recognition on unmount', e);
+      }
+      engine.dispose();
+      if (engineRef.current === engine) {
+        engineRef.current = null;
+      }
+      setIsRecording(false);
+      setIsReconnecting(false);
+      setInterimSegment(null);
+    };
+  }, [engineId, serverUrl, microphone, engineFactory, processText]);
+
+  // Switch languages without losing text: end the current session and let the
+  // restart logic bring it back up in the new language
+  useEffect(() => {
+    if (langRef.current === lang) return;
+    langRef.current = lang;
+
+    const engine = engineRef.current;
+    if (!engine) return;
+    engine.setLang(lang);
+
+    if (wantsRecordingRef.current && !restartTimerRef.current) {
+      // A deliberate switch shouldn't count against the restart backoff
+      sessionStartedAtRef.current = 0;
+      try {
+        engine.stop();
+      } catch (e) {
+        console.error('Error switching recognition language', e);
+      }
+    }
+  }, [lang]);
+
+  const commitUtterance = (utterance: string, confidence: number | null, endsAtPause: boolean) => {
+    if (!utterance) return;
+
+    const now = Date.now();
+    const startTime = utteranceStartRef.current ?? now;
+    // Detection knows when the speaker actually stopped; the recognizer reports later
+    const endTime = utteranceEndRef.current !== null && utteranceEndRef.current > startTime
+      ? utteranceEndRef.current
+      : now;
+    replaceSegments([
+      ...segmentsRef.current,
+      createSegment({
+        speakerId: speakerIdRef.current,
+        language: sessionLangRef.current,
+        text: processText(utterance, endsAtPause),
+        startTime,
+        endTime,
+        confidence,
+        audio: getAudioLinkRef.current?.(startTime, endTime),
+      }),
+    ]);
+  };
+
+  const undoLastSegment = () => {
+    if (segmentsRef.current.length === 0) return;
+    replaceSegments(segmentsRef.current.slice(0, -1));
+  };
+
+  // Apply spoken commands in order, committing the dictated text between them
+  handleFinalTranscriptRef.current = (transcript: string, confidence: number | null) => {
+    const tokens: VoiceToken[] = voiceCommandsRef.current.length > 0
+      ? parseVoiceCommands(transcript, voiceCommandsRef.current)
+      : [{ kind: 'text', text: transcript.trim() }];
+    let utterance = '';
+    // Recognizers finalize short chunks mid-sentence, so with detection running only a
+    // pause it heard, or the result flushed when recording is stopped, ends a sentence.
+    // Without detection (turned off, or it failed to start) each final result does.
+    const endsAtPause = !isDetectingRef.current
+      || utteranceEndRef.current !== null
+      || !wantsRecordingRef.current;
+
+    for (const token of tokens) {
+      if (token.kind === 'text') {
+        const words = capitalizeNextRef.current ? capitalizeFirst(token.text) : token.text;
+        capitalizeNextRef.current = false;
+        utterance = joinTranscript(utterance, words);
+        continue;
+      }
+
+      const { command } = token;
+      toast(command.label, { duration: 1200 });
+
+      switch (command.action.type) {
+        case 'insert':
+          utterance = utterance
+            ? joinTranscript(utterance, command.action.text)
+            : command.action.text;
+          break;
+        case 'capitalize-next':
+          capitalizeNextRef.current = true;
+          break;
+        case 'undo-segment':
+          if (utterance) {
+            // Dropping the words spoken just before the command is the undo
+            utterance = '';
+          } else {
+            undoLastSegment();
+          }
+          break;
+        case 'clear':
+          utterance = '';
+          if (onClearRequestedRef.current) {
+            onClearRequestedRef.current();
+          } else {
+            resetTextRef.current();
+          }
+          break;
+        case 'stop-recording':
+          commitUtterance(utterance, confidence, true);
+          utterance = '';
+          stopRecordingRef.current();
+          break;
+      }
+    }
+
+    commitUtterance(utterance, confidence, endsAtPause);
+  };
 
   const startRecording = useCallback(() => {
-    if (!recognitionRef.current) {
-      toast.error('Speech recognition is not supported in your browser');
+    if (!engineRef.current) {
+      toast.error(UNSUPPORTED_MESSAGE);
       return;
     }
 
@@ -120,8 +441,13 @@ export function useSpeechRecognition(): SpeechRecognitionHook {
       previousTranscriptionsRef.current.clear();
     }
 
+    wantsRecordingRef.current = true;
+    failedRestartsRef.current = 0;
+    sessionStartedAtRef.current = Date.now();
+    sessionLangRef.current = langRef.current;
+
     try {
-      recognitionRef.current.start();
+      engineRef.current.start();
       setIsRecording(true);
       toast.success('Listening...');
     } catch (error) {
@@ -133,24 +459,81 @@ export function useSpeechRecognition(): SpeechRecognitionHook {
         setIsRecording(true);
       } else {
         toast.error('Failed to start recording. Please try again.');
+        wantsRecordingRef.current = false;
         setIsRecording(false);
       }
     }
   }, [isRecording]);
 
-  const stopRecording = useCallback(() => {
-    if (recognitionRef.current) {
+  const haltRecording = useCallback((notice: string) => {
+    // Clear the intent first so the end event doesn't trigger a restart
+    wantsRecordingRef.current = false;
+    if (restartTimerRef.current) {
+      clearTimeout(restartTimerRef.current);
+      restartTimerRef.current = null;
+    }
+    setIsReconnecting(false);
+
+    if (engineRef.current) {
       try {
-        recognitionRef.current.stop();
+        engineRef.current.stop();
         setIsRecording(false);
-        toast.info('Stopped listening');
+        clearInterim();
+        toast.info(notice);
       } catch (error) {
         console.error('Error stopping recording:', error);
         // Force state update even if error occurs
         setIsRecording(false);
+        clearInterim();
       }
     }
-  }, []);
+  }, [clearInterim]);
+
+  const stopRecording = useCallback(() => haltRecording('Stopped listening'), [haltRecording]);
+
+  // Keep a stable reference so engine error handlers can stop recording
+  stopRecordingRef.current = stopRecording;
+
+  const handleVoiceActivity = (event: VoiceActivityEvent) => {
+    switch (event.type) {
+      case 'speech-start':
+        isSpeakingRef.current = true;
+        heardSpeechRef.current = true;
+        utteranceStartRef.current ??= event.time;
+        // A pause heard before this speech belongs to the previous utterance, not this one
+        utteranceEndRef.current = null;
+        break;
+      case 'speech-end':
+        isSpeakingRef.current = false;
+        utteranceEndRef.current = event.time;
+        // End the recognition session so the pause closes the segment
+        if (hasInterimRef.current && engineRef.current && !splitRequestedRef.current) {
+          splitRequestedRef.current = true;
+          engineRef.current.stop();
+        }
+        break;
+      case 'silence':
+        if (voiceActivity.autoPauseMs > 0 && wantsRecordingRef.current) {
+          haltRecording(`Paused after ${Math.round(event.duration / 1000)} seconds of silence`);
+        }
+        break;
+    }
+  };
+
+  const { isActive: isDetecting } = useVoiceActivity({
+    enabled: isRecording && voiceActivity.enabled,
+    microphone,
+    pauseMs: voiceActivity.pauseMs,
+    silenceMs: voiceActivity.autoPauseMs,
+    onEvent: handleVoiceActivity,
+  });
+  isDetectingRef.current = isDetecting;
+  // Nothing has been heard yet when detection (re)starts
+  useEffect(() => {
+    if (isDetecting) return;
+    isSpeakingRef.current = false;
+    heardSpeechRef.current = false;
+  }, [isDetecting]);
 
   const toggleRecording = useCallback(() => {
     if (isRecording) {
@@ -161,22 +544,44 @@ export function useSpeechRecognition(): SpeechRecognitionHook {
   }, [isRecording, startRecording, stopRecording]);
 
   const resetText = useCallback(() => {
-    setText('');
+    const cleared = segmentsRef.current;
+    replaceSegments([]);
+    clearInterim();
+    capitalizeNextRef.current = false;
     lastTranscriptRef.current = '';
     previousTranscriptionsRef.current.clear();
-  }, []);
+    onResetRef.current?.(cleared);
+  }, [replaceSegments, clearInterim]);
+
+  // Keep a stable reference so the clear command can reset the transcript
+  resetTextRef.current = resetText;
 
   const updateText = useCallback((newText: string) => {
-    setText(newText);
-  }, []);
+    replaceSegments(applyTextEdit(segmentsRef.current, newText, {
+      speakerId: speakerIdRef.current,
+      language: langRef.current,
+    }));
+  }, [replaceSegments]);
+
+  const updateSegment = useCallback((id: string, newText: string) => {
+    replaceSegments(segmentsRef.current.map(segment =>
+      segment.id === id ? { ...segment, text: newText, confidence: null } : segment
+    ));
+  }, [replaceSegments]);
 
   return {
     text,
+    interimText: interimSegment?.text ?? '',
+    interimSegment,
+    segments,
     isRecording,
+    isReconnecting,
     startRecording,
     stopRecording,
     toggleRecording,
     resetText,
-    setText: updateText
+    setText: updateText,
+    setSegments: replaceSegments,
+    updateSegment
   };
 }
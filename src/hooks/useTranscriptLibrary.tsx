@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import {
+  createTranscriptId,
+  defaultTranscriptTitle,
+  isLibraryStorageEvent,
+  loadLibrary,
+  SavedTranscript,
+  saveLibrary,
+} from '@/lib/transcriptLibrary';
+import { getRecordingIds } from '@/lib/transcript';
+import { deleteRecordings, loadDraft } from '@/lib/localStore';
+
+type NewTranscript = Pick<SavedTranscript, 'segments' | 'participants'> & Partial<SavedTranscript>;
+
+export function useTranscriptLibrary() {
+  const [transcripts, setTranscripts] = useState<SavedTranscript[]>(loadLibrary);
+  const transcriptsRef = useRef(transcripts);
+
+  // Stay in sync when another tab edits the library
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (isLibraryStorageEvent(event)) {
+        transcriptsRef.current = loadLibrary();
+        setTranscripts(transcriptsRef.current);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Write the change first, so nothing shows as saved that isn't; returns whether it was written
+  const commit = useCallback((update: (prev: SavedTranscript[]) => SavedTranscript[]) => {
+    const next = update(transcriptsRef.current);
+    if (!saveLibrary(next)) {
+      toast.error('Could not save to history. Storage may be full; delete old transcripts and try again.');
+      return false;
+    }
+    transcriptsRef.current = next;
+    setTranscripts(next);
+    return true;
+  }, []);
+
+  // Save a new transcript, or overwrite the one with the same id; returns its id, or null if it couldn't be saved
+  const saveTranscript = useCallback((transcript: NewTranscript) => {
+    const now = Date.now();
+    const id = transcript.id ?? createTranscriptId();
+
+    const saved = commit(prev => {
+      const existing = prev.find(item => item.id === id);
+      const saved: SavedTranscript = {
+        title: defaultTranscriptTitle(),
+        createdAt: now,
+        ...existing,
+        ...transcript,
+        id,
+        updatedAt: now,
+      };
+      return existing
+        ? prev.map(item => item.id === id ? saved : item)
+        : [saved, ...prev];
+    });
+
+    return saved ? id : null;
+  }, [commit]);
+
+  const updateTranscript = useCallback((id: string, changes: Partial<Omit<SavedTranscript, 'id'>>) => {
+    commit(prev => prev.map(item =>
+      item.id === id ? { ...item, ...changes, updatedAt: Date.now() } : item
+    ));
+  }, [commit]);
+
+  const renameTranscript = useCallback((id: string, title: string) => {
+    if (!title.trim()) return;
+    updateTranscript(id, { title: title.trim() });
+  }, [updateTranscript]);
+
+  // Delete stored audio that no saved transcript plays back; `inUse` is audio still needed elsewhere
+  const releaseRecordings = useCallback((recordingIds: string[], inUse: string[] = []) => {
+    const used = new Set([...inUse, ...transcriptsRef.current.flatMap(item => getRecordingIds(item.segments))]);
+    deleteRecordings(recordingIds.filter(recordingId => !used.has(recordingId)))
+      .catch(error => console.error('Error deleting audio:', error));
+  }, []);
+
+  const deleteTranscript = useCallback((id: string) => {
+    const removed = transcriptsRef.current.find(item => item.id === id);
+    if (!commit(prev => prev.filter(item => item.id !== id)) || !removed) return;
+
+    // The dictation on the main screen may still play back the same audio
+    loadDraft()
+      .then(draft => releaseRecordings(getRecordingIds(removed.segments), getRecordingIds(draft?.segments ?? [])))
+      .catch(error => console.error('Error deleting audio:', error));
+  }, [commit, releaseRecordings]);
+
+  // Copies get a fresh id and sit next to the original
+  const duplicateTranscript = useCallback((id: string) => {
+    const copyId = createTranscriptId();
+    const now = Date.now();
+
+    const copied = commit(prev => {
+      const index = prev.findIndex(item => item.id === id);
+      if (index === -1) return prev;
+
+      const original = prev[index];
+      const copy: SavedTranscript = {
+        ...original,
+        id: copyId,
+        title: `${original.title} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return [...prev.slice(0, index), copy, ...prev.slice(index)];
+    });
+
+    return copied ? copyId : null;
+  }, [commit]);
+
+  const getTranscript = useCallback((id: string) => {
+    return transcripts.find(item => item.id === id) ?? null;
+  }, [transcripts]);
+
+  return {
+    transcripts,
+    getTranscript,
+    saveTranscript,
+    updateTranscript,
+    renameTranscript,
+    deleteTranscript,
+    duplicateTranscript,
+    releaseRecordings
+  };
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect, useRef } from 'react';
+import { computeRms, rmsToLevel } from '@/lib/audioLevel';
+import { acquireMicrophone, MicrophoneLease, MicrophoneSettings } from '@/lib/microphone';
+import { createVoiceActivityDetector, VoiceActivityEvent } from '@/lib/vad';
+
+// Timers keep running in background tabs, unlike animation frames
+const SAMPLE_INTERVAL_MS = 30;
+
+interface VoiceActivityHookOptions {
+  enabled: boolean;
+  microphone?: MicrophoneSettings;
+  pauseMs: number;
+  silenceMs: number;
+  onEvent: (event: VoiceActivityEvent) => void;
+}
+
+// Runs voice activity detection on the microphone while enabled
+export function useVoiceActivity({ enabled, microphone, pauseMs, silenceMs, onEvent }: VoiceActivityHookOptions) {
+  // True once the microphone is being analysed, so callers know events will come
+  const [isActive, setIsActive] = useState(false);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let lease: MicrophoneLease | null = null;
+    let disconnect: (() => void) | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const start = async () => {
+      try {
+        const acquired = await acquireMicrophone(microphone);
+        if (cancelled) {
+          acquired.release();
+          return;
+        }
+        lease = acquired;
+
+        const analyser = acquired.context.createAnalyser();
+        analyser.fftSize = 1024;
+        acquired.source.connect(analyser);
+        disconnect = () => acquired.source.disconnect(analyser);
+        const samples = new Float32Array(analyser.fftSize);
+        const detector = createVoiceActivityDetector({ pauseMs, silenceMs });
+
+        timer = setInterval(() => {
+          analyser.getFloatTimeDomainData(samples);
+          const event = detector.process(rmsToLevel(computeRms(samples)), Date.now());
+          if (event) onEventRef.current(event);
+        }, SAMPLE_INTERVAL_MS);
+        setIsActive(true);
+      } catch (error) {
+        // Recognition carries on without detection, as it did before
+        console.error('Error starting voice activity detection:', error);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      disconnect?.();
+      lease?.release();
+      setIsActive(false);
+    };
+  }, [enabled, microphone, pauseMs, silenceMs]);
+
+  return { isActive };
+}
@@ -9,13 +9,190 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      [_ in never]: never
+      participants: {
+        Row: {
+          display_name: string
+          joined_at: string
+          last_seen_at: string
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          display_name: string
+          joined_at?: string
+          last_seen_at?: string
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          display_name?: string
+          joined_at?: string
+          last_seen_at?: string
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "participants_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_credentials: {
+        Row: {
+          created_at: string
+          key_version: number
+          owner_token_hash: string
+          passphrase_hash: string
+          passphrase_salt: string
+          rotated_at: string | null
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          key_version?: number
+          owner_token_hash: string
+          passphrase_hash: string
+          passphrase_salt: string
+          rotated_at?: string | null
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          key_version?: number
+          owner_token_hash?: string
+          passphrase_hash?: string
+          passphrase_salt?: string
+          rotated_at?: string | null
+          session_id?: string
+        }
+        Relationships: []
+      }
+      session_invites: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          key_version: number
+          session_id: string
+          token_hash: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          key_version: number
+          session_id: string
+          token_hash: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          key_version?: number
+          session_id?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_invites_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "session_credentials"
+            referencedColumns: ["session_id"]
+          },
+        ]
+      }
+      sessions: {
+        Row: {
+          created_at: string
+          id: string
+          last_active_at: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          last_active_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_active_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sessions_id_fkey"
+            columns: ["id"]
+            isOneToOne: true
+            referencedRelation: "session_credentials"
+            referencedColumns: ["session_id"]
+          },
+        ]
+      }
+      transcript_segments: {
+        Row: {
+          ciphertext: string
+          confidence: number | null
+          end_time: string
+          id: string
+          iv: string
+          language: string
+          session_id: string
+          speaker_id: string
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          ciphertext: string
+          confidence?: number | null
+          end_time: string
+          id: string
+          iv: string
+          language: string
+          session_id: string
+          speaker_id: string
+          start_time: string
+          updated_at?: string
+        }
+        Update: {
+          ciphertext?: string
+          confidence?: number | null
+          end_time?: string
+          id?: string
+          iv?: string
+          language?: string
+          session_id?: string
+          speaker_id?: string
+          start_time?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcript_segments_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      has_session_access: {
+        Args: {
+          target_session_id: string
+        }
+        Returns: boolean
+      }
+      is_session_member: {
+        Args: {
+          topic: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
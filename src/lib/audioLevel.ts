@@ -0,0 +1,52 @@
+// Helpers for turning raw analyser data into something a meter can show
+
+// Levels are shown on a decibel scale; anything below the floor reads as zero
+const DB_FLOOR = -60;
+// Samples this close to full scale mean the input is clipping
+const CLIPPING_THRESHOLD = 0.99;
+
+// Below this level the microphone is treated as picking up nothing
+export const SILENCE_LEVEL = 0.15;
+
+export function computeRms(samples: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+// Map an RMS amplitude to 0..1 on a logarithmic scale, which matches how loud it sounds
+export function rmsToLevel(rms: number) {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - DB_FLOOR) / -DB_FLOOR));
+}
+
+export function hasClipped(samples: Float32Array) {
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) >= CLIPPING_THRESHOLD) return true;
+  }
+  return false;
+}
+
+/**
+ * Group byte frequency data into logarithmically spaced bands (0..1), so low
+ * frequencies, where most of the voice is, get as many bars as the highs.
+ */
+export function toFrequencyBands(frequencies: Uint8Array, bandCount: number) {
+  const bands: number[] = [];
+  const binCount = frequencies.length;
+
+  for (let band = 0; band < bandCount; band++) {
+    const start = Math.floor(Math.pow(binCount, band / bandCount));
+    const end = Math.max(start + 1, Math.floor(Math.pow(binCount, (band + 1) / bandCount)));
+    let sum = 0;
+    for (let i = start; i < end && i < binCount; i++) {
+      sum += frequencies[i];
+    }
+    bands.push(sum / (end - start) / 255);
+  }
+
+  return bands;
+}
@@ -0,0 +1,52 @@
+// State of the connection to a session's realtime channel, driven by channel
+// statuses, send acknowledgements and the browser's network events.
+
+export type ConnectionState =
+  | 'connecting'    // First join after creating, joining or resuming a session
+  | 'connected'     // Subscribed, and broadcasts are being acknowledged
+  | 'degraded'      // Subscribed, but recent broadcasts went unacknowledged
+  | 'reconnecting'  // The channel dropped; a rejoin is scheduled or under way
+  | 'offline';      // No network, or we gave up until asked to retry
+
+export type ConnectionEvent =
+  | 'join'            // A new channel is being set up for a session
+  | 'subscribed'      // The channel reported SUBSCRIBED
+  | 'send-failed'     // A broadcast wasn't acknowledged in time
+  | 'send-ok'         // A broadcast was acknowledged
+  | 'channel-lost'    // The channel errored, timed out or closed
+  | 'network-lost'    // The browser went offline
+  | 'network-restored'
+  | 'give-up';        // Too many failed rejoins in a row
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+// Spread out rejoins so everyone in a session doesn't retry at the same moment
+const RECONNECT_JITTER = 0.2;
+
+export function transitionConnection(state: ConnectionState, event: ConnectionEvent): ConnectionState {
+  switch (event) {
+    case 'join':
+      return 'connecting';
+    case 'subscribed':
+      return 'connected';
+    case 'send-failed':
+      return state === 'connected' ? 'degraded' : state;
+    case 'send-ok':
+      return state === 'degraded' ? 'connected' : state;
+    case 'channel-lost':
+      // Without a network there is nothing to rejoin yet
+      return state === 'offline' ? state : 'reconnecting';
+    case 'network-lost':
+    case 'give-up':
+      return 'offline';
+    case 'network-restored':
+      return state === 'offline' ? 'reconnecting' : state;
+  }
+}
+
+// Exponential backoff: about 1s, 2s, 4s ... capped at 30s
+export function getReconnectDelay(attempt: number) {
+  const delay = Math.min(INITIAL_RECONNECT_DELAY_MS * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+  const jitter = delay * RECONNECT_JITTER * (Math.random() * 2 - 1);
+  return Math.round(delay + jitter);
+}
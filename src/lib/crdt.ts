@@ -0,0 +1,177 @@
+/**
+ * A small replicated text sequence (RGA). Every character gets a unique id
+ * made of a Lamport clock and the id of the site that typed it, and is inserted
+ * after another character's id rather than at an index. Applying the same set of
+ * operations in any order converges on the same text on every device.
+ */
+
+export interface CharId {
+  clock: number;
+  site: string;
+}
+
+export type DocOperation =
+  | { type: 'insert'; id: CharId; after: CharId | null; value: string }
+  | { type: 'delete'; id: CharId };
+
+interface DocChar {
+  id: CharId;
+  after: CharId | null;
+  value: string;
+  deleted: boolean;
+}
+
+export interface TextDocument {
+  getText: () => string;
+  // Apply a local edit by diffing against the current text; returns the ops to broadcast
+  edit: (newText: string) => DocOperation[];
+  // Apply operations from another site; returns true if the text changed
+  apply: (ops: DocOperation[]) => boolean;
+  // Every operation needed to rebuild this document, for late joiners
+  snapshot: () => DocOperation[];
+  // Stable anchor for a caret: the id of the visible character before it
+  anchorAt: (position: number) => CharId | null;
+  positionOf: (anchor: CharId | null) => number;
+}
+
+const keyOf = (id: CharId) => `${id.clock}@${id.site}`;
+
+// Total order over ids: Lamport clock first, with the site id breaking ties
+function compareIds(a: CharId, b: CharId) {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.site < b.site ? -1 : a.site > b.site ? 1 : 0;
+}
+
+export function createTextDocument(siteId: string): TextDocument {
+  const chars: DocChar[] = [];
+  const byKey = new Map<string, DocChar>();
+  // Operations that arrived before the character they depend on
+  let pending: DocOperation[] = [];
+  let clock = 0;
+
+  const visibleChars = () => chars.filter(char => !char.deleted);
+
+  const integrate = (op: DocOperation): boolean | null => {
+    if (op.type === 'delete') {
+      const target = byKey.get(keyOf(op.id));
+      if (!target) return null;
+      if (target.deleted) return false;
+      target.deleted = true;
+      return true;
+    }
+
+    if (byKey.has(keyOf(op.id))) return false;
+
+    let index = 0;
+    if (op.after) {
+      const origin = byKey.get(keyOf(op.after));
+      if (!origin) return null;
+      index = chars.indexOf(origin) + 1;
+    }
+
+    // Skip concurrent inserts at the same spot that win the ordering, and their descendants
+    while (index < chars.length && compareIds(chars[index].id, op.id) > 0) {
+      index++;
+    }
+
+    const char: DocChar = { id: op.id, after: op.after, value: op.value, deleted: false };
+    chars.splice(index, 0, char);
+    byKey.set(keyOf(op.id), char);
+    clock = Math.max(clock, op.id.clock);
+    return true;
+  };
+
+  const apply = (ops: DocOperation[]) => {
+    let changed = false;
+    let queue = [...pending, ...ops];
+    pending = [];
+
+    // Keep retrying buffered ops while each pass makes progress
+    let progressed = true;
+    while (progressed && queue.length > 0) {
+      progressed = false;
+      const waiting: DocOperation[] = [];
+      for (const op of queue) {
+        const result = integrate(op);
+        if (result === null) {
+          waiting.push(op);
+        } else {
+          progressed = true;
+          changed = changed || result;
+        }
+      }
+      queue = waiting;
+    }
+    pending = queue;
+
+    return changed;
+  };
+
+  const getText = () => visibleChars().map(char => char.value).join('');
+
+  const edit = (newText: string) => {
+    const visible = visibleChars();
+    const oldText = visible.map(char => char.value).join('');
+    if (oldText === newText) return [];
+
+    let prefix = 0;
+    const maxPrefix = Math.min(oldText.length, newText.length);
+    while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) prefix++;
+
+    let suffix = 0;
+    const maxSuffix = maxPrefix - prefix;
+    while (
+      suffix < maxSuffix &&
+      oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+    ) suffix++;
+
+    const ops: DocOperation[] = [];
+
+    for (const char of visible.slice(prefix, oldText.length - suffix)) {
+      ops.push({ type: 'delete', id: char.id });
+    }
+
+    let after = prefix > 0 ? visible[prefix - 1].id : null;
+    for (const value of newText.slice(prefix, newText.length - suffix)) {
+      const id = { clock: ++clock, site: siteId };
+      ops.push({ type: 'insert', id, after, value });
+      after = id;
+    }
+
+    apply(ops);
+    return ops;
+  };
+
+  const snapshot = () => {
+    const ops: DocOperation[] = [];
+    // Document order always puts a character after the one it was inserted after
+    for (const char of chars) {
+      ops.push({ type: 'insert', id: char.id, after: char.after, value: char.value });
+      if (char.deleted) {
+        ops.push({ type: 'delete', id: char.id });
+      }
+    }
+    return ops;
+  };
+
+  const anchorAt = (position: number) => {
+    const visible = visibleChars();
+    return position > 0 && visible[position - 1] ? visible[position - 1].id : null;
+  };
+
+  const positionOf = (anchor: CharId | null) => {
+    if (!anchor) return 0;
+    const target = byKey.get(keyOf(anchor));
+    if (!target) return 0;
+
+    // Count visible characters up to and including the anchor, even if it was deleted since
+    let position = 0;
+    for (const char of chars) {
+      if (!char.deleted) position++;
+      if (char === target) break;
+    }
+    return position;
+  };
+
+  return { getText, edit, apply, snapshot, anchorAt, positionOf };
+}
@@ -0,0 +1,88 @@
+import { format } from 'date-fns';
+import { createZip } from './zip';
+import { ExportableTranscript, getTranscriptTurns } from './formats';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Built-in style ids so Word shows them as real headings in the navigation pane
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+    <w:name w:val="Normal"/>
+    <w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr>
+    <w:rPr><w:sz w:val="22"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/>
+    <w:basedOn w:val="Normal"/>
+    <w:rPr><w:b/><w:sz w:val="40"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Heading2">
+    <w:name w:val="heading 2"/>
+    <w:basedOn w:val="Normal"/>
+    <w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr>
+    <w:rPr><w:b/><w:sz w:val="26"/></w:rPr>
+  </w:style>
+</w:styles>`;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Line breaks inside a turn stay line breaks rather than new paragraphs
+function run(text: string, properties = '') {
+  const lines = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`);
+  return `<w:r>${properties}${lines.join('<w:br/>')}</w:r>`;
+}
+
+function paragraph(content: string, style?: string) {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}${content}</w:p>`;
+}
+
+export function toDocx(transcript: ExportableTranscript): Blob {
+  const body = [
+    paragraph(run(transcript.title), 'Title'),
+    paragraph(run(format(new Date(transcript.createdAt), 'd MMMM yyyy, HH:mm'), '<w:rPr><w:i/></w:rPr>')),
+    ...getTranscriptTurns(transcript).flatMap(turn => [
+      paragraph(
+        run(turn.speakerName) +
+        run(`  ${format(new Date(turn.startTime), 'HH:mm:ss')}`, '<w:rPr><w:b w:val="0"/><w:color w:val="808080"/></w:rPr>'),
+        'Heading2'
+      ),
+      paragraph(run(turn.text)),
+    ]),
+  ];
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>${body.join('')}</w:body>
+</w:document>`;
+
+  const zip = createZip([
+    { path: '[Content_Types].xml', content: CONTENT_TYPES },
+    { path: '_rels/.rels', content: PACKAGE_RELS },
+    { path: 'word/_rels/document.xml.rels', content: DOCUMENT_RELS },
+    { path: 'word/document.xml', content: document },
+    { path: 'word/styles.xml', content: STYLES },
+  ]);
+
+  return new Blob([zip], { type: DOCX_MIME_TYPE });
+}
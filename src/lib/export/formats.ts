@@ -0,0 +1,164 @@
+import { format } from 'date-fns';
+import { segmentsToText, TranscriptSegment } from '@/lib/transcript';
+import type { SavedTranscript } from '@/lib/transcriptLibrary';
+
+export type ExportableTranscript = Pick<SavedTranscript, 'title' | 'createdAt' | 'segments' | 'participants'>;
+
+// Consecutive segments from the same speaker, as shown in the conversation view
+export interface TranscriptTurn {
+  speakerId: string;
+  speakerName: string;
+  startTime: number;
+  text: string;
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  speakerName: string;
+  text: string;
+}
+
+// Common subtitle guidelines: two lines of at most 42 characters per cue
+const MAX_LINE_LENGTH = 42;
+const MAX_CUE_LINES = 2;
+// Typed segments have no real duration, so give them time to be read
+const MIN_CUE_DURATION_MS = 1000;
+
+export function getSpeakerName(transcript: ExportableTranscript, speakerId: string) {
+  return transcript.participants[speakerId] ?? 'Unknown speaker';
+}
+
+const spokenSegments = (transcript: ExportableTranscript) =>
+  [...transcript.segments]
+    .filter(segment => segment.text.trim())
+    .sort((a, b) => a.startTime - b.startTime);
+
+const hasSeveralSpeakers = (transcript: ExportableTranscript) =>
+  new Set(transcript.segments.map(segment => segment.speakerId)).size > 1;
+
+export function getTranscriptTurns(transcript: ExportableTranscript): TranscriptTurn[] {
+  const turns: { speakerId: string; startTime: number; segments: TranscriptSegment[] }[] = [];
+
+  for (const segment of spokenSegments(transcript)) {
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speakerId === segment.speakerId) {
+      previous.segments.push(segment);
+    } else {
+      turns.push({ speakerId: segment.speakerId, startTime: segment.startTime, segments: [segment] });
+    }
+  }
+
+  return turns.map(turn => ({
+    speakerId: turn.speakerId,
+    speakerName: getSpeakerName(transcript, turn.speakerId),
+    startTime: turn.startTime,
+    text: segmentsToText(turn.segments),
+  }));
+}
+
+export function toPlainText(transcript: ExportableTranscript) {
+  if (!hasSeveralSpeakers(transcript)) {
+    return `${segmentsToText(spokenSegments(transcript))}\n`;
+  }
+
+  return getTranscriptTurns(transcript)
+    .map(turn => `${turn.speakerName}: ${turn.text}`)
+    .join('\n\n') + '\n';
+}
+
+export function toMarkdown(transcript: ExportableTranscript) {
+  const lines = [
+    `# ${transcript.title}`,
+    '',
+    `_${format(new Date(transcript.createdAt), 'd MMMM yyyy, HH:mm')}_`,
+  ];
+
+  for (const turn of getTranscriptTurns(transcript)) {
+    lines.push('', `## ${turn.speakerName} (${format(new Date(turn.startTime), 'HH:mm:ss')})`, '', turn.text);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// Break text into lines no longer than the limit, without splitting words
+function wrapLines(text: string, limit: number) {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > limit) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Long segments become several cues, with the segment's time shared out by length
+function toCues(transcript: ExportableTranscript): Cue[] {
+  const cues: Cue[] = [];
+  const origin = spokenSegments(transcript)[0]?.startTime ?? 0;
+
+  for (const segment of spokenSegments(transcript)) {
+    const start = segment.startTime - origin;
+    const end = Math.max(segment.endTime - origin, start + MIN_CUE_DURATION_MS);
+    const lines = wrapLines(segment.text, MAX_LINE_LENGTH);
+    const chunks: string[][] = [];
+    for (let i = 0; i < lines.length; i += MAX_CUE_LINES) {
+      chunks.push(lines.slice(i, i + MAX_CUE_LINES));
+    }
+    const chunkLength = (chunk: string[]) => chunk.join(' ').length;
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunkLength(chunk), 0);
+
+    let chunkStart = start;
+    for (const chunk of chunks) {
+      const chunkEnd = chunkStart + ((end - start) * chunkLength(chunk)) / totalLength;
+      cues.push({
+        start: Math.round(chunkStart),
+        end: Math.round(chunkEnd),
+        speakerName: getSpeakerName(transcript, segment.speakerId),
+        text: chunk.join('\n'),
+      });
+      chunkStart = chunkEnd;
+    }
+  }
+
+  return cues;
+}
+
+function formatTimestamp(milliseconds: number, separator: ',' | '.') {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const seconds = Math.floor((milliseconds % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(milliseconds % 1000, 3)}`;
+}
+
+export function toSrt(transcript: ExportableTranscript) {
+  const labelSpeakers = hasSeveralSpeakers(transcript);
+
+  return toCues(transcript)
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+      labelSpeakers ? `${cue.speakerName}: ${cue.text}` : cue.text,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function toWebVtt(transcript: ExportableTranscript) {
+  const labelSpeakers = hasSeveralSpeakers(transcript);
+  // Cue text is markup, so escape it; voice span names can't contain the tag delimiter
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const voice = (name: string) => escape(name).replace(/&gt;/g, '');
+
+  const cues = toCues(transcript).map(cue => [
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    labelSpeakers ? `<v ${voice(cue.speakerName)}>${escape(cue.text)}` : escape(cue.text),
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
@@ -0,0 +1,48 @@
+import { toDocx } from './docx';
+import { ExportableTranscript, toMarkdown, toPlainText, toSrt, toWebVtt } from './formats';
+import { toJson } from './json';
+
+export type ExportFormatId = 'txt' | 'md' | 'srt' | 'vtt' | 'docx' | 'json';
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  label: string;
+  extension: string;
+  render: (transcript: ExportableTranscript) => Blob;
+}
+
+const textBlob = (contents: string, type: string) => new Blob([contents], { type: `${type};charset=utf-8` });
+
+export const exportFormats: ExportFormat[] = [
+  { id: 'txt', label: 'Plain text', extension: 'txt', render: t => textBlob(toPlainText(t), 'text/plain') },
+  { id: 'md', label: 'Markdown', extension: 'md', render: t => textBlob(toMarkdown(t), 'text/markdown') },
+  { id: 'srt', label: 'SRT subtitles', extension: 'srt', render: t => textBlob(toSrt(t), 'application/x-subrip') },
+  { id: 'vtt', label: 'WebVTT subtitles', extension: 'vtt', render: t => textBlob(toWebVtt(t), 'text/vtt') },
+  { id: 'docx', label: 'Word document', extension: 'docx', render: toDocx },
+  { id: 'json', label: 'JSON (re-importable)', extension: 'json', render: t => textBlob(toJson(t), 'application/json') },
+];
+
+// File-system safe name derived from the title
+export function exportFileName(transcript: ExportableTranscript, exportFormat: ExportFormat) {
+  const base = transcript.title
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim() || 'transcript';
+  return `${base}.${exportFormat.extension}`;
+}
+
+export function downloadTranscript(transcript: ExportableTranscript, formatId: ExportFormatId) {
+  const exportFormat = exportFormats.find(item => item.id === formatId);
+  if (!exportFormat) throw new Error(`Unknown export format: ${formatId}`);
+
+  const url = URL.createObjectURL(exportFormat.render(transcript));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(transcript, exportFormat);
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export type { ExportableTranscript } from './formats';
+export { parseTranscriptJson } from './json';
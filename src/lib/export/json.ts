@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import type { TranscriptSegment } from '@/lib/transcript';
+import type { ExportableTranscript } from './formats';
+
+// Lossless interchange format; bump the version when the shape changes
+const FORMAT_ID = 'voicewrite-transcript';
+const FORMAT_VERSION = 1;
+
+const segmentSchema = z.object({
+  id: z.string(),
+  speakerId: z.string(),
+  startTime: z.number(),
+  endTime: z.number(),
+  text: z.string(),
+  confidence: z.number().nullable(),
+  language: z.string(),
+  isFinal: z.boolean(),
+  audio: z.object({
+    recordingId: z.string(),
+    start: z.number(),
+    end: z.number(),
+  }).optional(),
+});
+
+const transcriptFileSchema = z.object({
+  format: z.literal(FORMAT_ID),
+  version: z.literal(FORMAT_VERSION),
+  title: z.string(),
+  createdAt: z.number(),
+  participants: z.record(z.string()),
+  segments: z.array(segmentSchema),
+});
+
+export function toJson(transcript: ExportableTranscript) {
+  const file: z.infer<typeof transcriptFileSchema> = {
+    format: FORMAT_ID,
+    version: FORMAT_VERSION,
+    title: transcript.title,
+    createdAt: transcript.createdAt,
+    participants: transcript.participants,
+    segments: transcript.segments,
+  };
+  return JSON.stringify(file, null, 2) + '\n';
+}
+
+// Throws with a readable message if the file isn't a transcript export
+export function parseTranscriptJson(contents: string): ExportableTranscript {
+  let data: unknown;
+  try {
+    data = JSON.parse(contents);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const result = transcriptFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error('The file is not a VoiceWrite transcript export');
+  }
+
+  // The schema guarantees every field; the cast only bridges zod's non-strict inference
+  const { title, createdAt, participants, segments } = result.data;
+  return { title, createdAt, participants, segments: segments as TranscriptSegment[] };
+}
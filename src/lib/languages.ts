@@ -0,0 +1,23 @@
+export interface DictationLanguage {
+  code: string; // BCP 47 tag passed to the recognizer
+  label: string;
+}
+
+export const DICTATION_LANGUAGES: DictationLanguage[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'hi-IN', label: 'हिन्दी (Hindi)' },
+  { code: 'de-DE', label: 'Deutsch (German)' },
+];
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+export function getLanguageLabel(code: string) {
+  return DICTATION_LANGUAGES.find(language => language.code === code)?.label ?? code;
+}
+
+// Short form for compact badges, e.g. "de-DE" -> "DE"
+export function getLanguageShortCode(code: string) {
+  return code.split('-')[0].toUpperCase();
+}
@@ -0,0 +1,209 @@
+import type { TranscriptSegment } from '@/lib/transcript';
+import type { SessionAccess } from '@/lib/sessionAuth';
+
+// Device-local persistence in IndexedDB, so drafts and sessions survive reloads
+// and changes made offline can be replayed later.
+
+// The dictation in progress on the main screen
+export interface LocalDraft {
+  segments: TranscriptSegment[];
+  updatedAt: number;
+}
+
+// Enough to rejoin a session after a reload, plus the conversation as last seen
+export interface RecentSession {
+  sessionId: string;
+  access: SessionAccess;
+  secret: string;
+  segmentsBySpeaker: {[key: string]: TranscriptSegment[]};
+  participantNames: {[key: string]: string};
+  savedAt: number;
+}
+
+// An audio recording made alongside dictation; its data is stored as separate chunks
+export interface AudioRecording {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+}
+
+interface AudioChunk {
+  id?: number;
+  recordingId: string;
+  data: Blob;
+}
+
+// A broadcast that could not be sent, kept until the channel is back
+export interface OutboxEntry {
+  id?: number;
+  sessionId: string;
+  event: string;
+  payload: unknown;
+  queuedAt: number;
+}
+
+type StoreName = 'drafts' | 'sessions' | 'outbox' | 'recordings' | 'audioChunks';
+
+const DB_NAME = 'voicewrite';
+const DB_VERSION = 2;
+const DRAFT_KEY = 'current';
+const MAX_RECENT_SESSIONS = 10;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('drafts');
+          db.createObjectStore('sessions', { keyPath: 'sessionId' });
+          db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true })
+            .createIndex('sessionId', 'sessionId');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('recordings', { keyPath: 'id' });
+          db.createObjectStore('audioChunks', { keyPath: 'id', autoIncrement: true })
+            .createIndex('recordingId', 'recordingId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a later call to try again, e.g. after storage is freed
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+}
+
+export async function loadDraft() {
+  return (await withStore<LocalDraft | undefined>('drafts', 'readonly', store => store.get(DRAFT_KEY))) ?? null;
+}
+
+export async function saveDraft(segments: TranscriptSegment[]) {
+  const draft: LocalDraft = { segments, updatedAt: Date.now() };
+  await withStore('drafts', 'readwrite', store => store.put(draft, DRAFT_KEY));
+}
+
+export async function clearDraft() {
+  await withStore('drafts', 'readwrite', store => store.delete(DRAFT_KEY));
+}
+
+// Most recently used session whose access token is still valid
+export async function loadRecentSession() {
+  const sessions = await withStore<RecentSession[]>('sessions', 'readonly', store => store.getAll());
+  return sessions
+    .filter(session => session.access.expiresAt > Date.now())
+    .sort((a, b) => b.savedAt - a.savedAt)[0] ?? null;
+}
+
+export async function saveRecentSession(session: Omit<RecentSession, 'savedAt'>) {
+  await withStore('sessions', 'readwrite', store => store.put({ ...session, savedAt: Date.now() }));
+
+  // Expired and old sessions are of no further use
+  const sessions = await withStore<RecentSession[]>('sessions', 'readonly', store => store.getAll());
+  const stale = sessions
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .filter((item, index) => index >= MAX_RECENT_SESSIONS || item.access.expiresAt <= Date.now());
+  for (const item of stale) {
+    await removeRecentSession(item.sessionId);
+  }
+}
+
+export async function removeRecentSession(sessionId: string) {
+  await withStore('sessions', 'readwrite', store => store.delete(sessionId));
+  await clearOutbox(sessionId);
+}
+
+export async function queueOutboxEntry(entry: Omit<OutboxEntry, 'id'>) {
+  await withStore('outbox', 'readwrite', store => store.add(entry));
+}
+
+// Queued broadcasts for a session, oldest first
+export async function loadOutbox(sessionId: string) {
+  return withStore<OutboxEntry[]>('outbox', 'readonly', store => store.index('sessionId').getAll(sessionId));
+}
+
+export async function removeOutboxEntries(ids: number[]) {
+  const db = await openDatabase();
+  const transaction = db.transaction('outbox', 'readwrite');
+  ids.forEach(id => transaction.objectStore('outbox').delete(id));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function clearOutbox(sessionId: string) {
+  const entries = await loadOutbox(sessionId);
+  await removeOutboxEntries(entries.map(entry => entry.id!));
+}
+
+export function createRecordingId() {
+  return `rec-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export async function saveRecording(recording: AudioRecording) {
+  await withStore('recordings', 'readwrite', store => store.put(recording));
+}
+
+export async function appendAudioChunk(recordingId: string, data: Blob) {
+  const chunk: AudioChunk = { recordingId, data };
+  await withStore('audioChunks', 'readwrite', store => store.add(chunk));
+}
+
+// Remove recordings and all of their audio
+export async function deleteRecordings(recordingIds: string[]) {
+  if (recordingIds.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(['recordings', 'audioChunks'], 'readwrite');
+  const chunks = transaction.objectStore('audioChunks');
+  recordingIds.forEach(recordingId => {
+    transaction.objectStore('recordings').delete(recordingId);
+    const cursorRequest = chunks.index('recordingId').openKeyCursor(IDBKeyRange.only(recordingId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      chunks.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  });
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// The whole recording as one playable file, or null if it isn't on this device
+export async function loadRecordingAudio(recordingId: string) {
+  const recording = await withStore<AudioRecording | undefined>('recordings', 'readonly', store => store.get(recordingId));
+  if (!recording) return null;
+
+  const chunks = await withStore<AudioChunk[]>(
+    'audioChunks',
+    'readonly',
+    store => store.index('recordingId').getAll(recordingId)
+  );
+  return new Blob(chunks.map(chunk => chunk.data), { type: recording.mimeType });
+}
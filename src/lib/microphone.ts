@@ -0,0 +1,129 @@
+// Shared microphone access, so every part of the capture pipeline uses the
+// same device and processing choices.
+
+export interface MicrophoneSettings {
+  // Empty for the system default input
+  deviceId: string;
+  noiseSuppression: boolean;
+  echoCancellation: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  deviceId: '',
+  noiseSuppression: true,
+  echoCancellation: true,
+  autoGainControl: true,
+};
+
+// 'unsupported' when the browser can't report it, e.g. Firefox before 2024
+export type MicrophonePermission = PermissionState | 'unsupported';
+
+export function getAudioConstraints(settings: MicrophoneSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+    noiseSuppression: settings.noiseSuppression,
+    echoCancellation: settings.echoCancellation,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+// Open the chosen microphone, falling back to the default one if it has been unplugged
+export async function openMicrophone(settings: MicrophoneSettings = DEFAULT_MICROPHONE_SETTINGS) {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: getAudioConstraints(settings) });
+  } catch (error) {
+    const name = (error as DOMException).name;
+    if (settings.deviceId && (name === 'OverconstrainedError' || name === 'NotFoundError')) {
+      console.warn(`Microphone ${settings.deviceId} is unavailable, using the default input`);
+      return navigator.mediaDevices.getUserMedia({ audio: getAudioConstraints({ ...settings, deviceId: '' }) });
+    }
+    throw error;
+  }
+}
+
+// One open microphone and audio graph, shared by everything listening with the same settings
+export interface SharedMicrophone {
+  stream: MediaStream;
+  context: AudioContext;
+  // Connect analysers to this rather than creating another source
+  source: MediaStreamAudioSourceNode;
+}
+
+export interface MicrophoneLease extends SharedMicrophone {
+  // Hand the microphone back; it closes once nobody holds it
+  release: () => void;
+}
+
+type SharedEntry = {
+  microphone: Promise<SharedMicrophone>;
+  holders: number;
+};
+
+const sharedMicrophones = new Map<string, SharedEntry>();
+
+function closeMicrophone({ stream, context }: SharedMicrophone) {
+  stream.getTracks().forEach(track => track.stop());
+  context.close().catch(() => {});
+}
+
+// The level meter, voice detection, recorder and streaming engine all listen at once
+// while dictating; sharing keeps that to a single capture instead of one each.
+export async function acquireMicrophone(
+  settings: MicrophoneSettings = DEFAULT_MICROPHONE_SETTINGS
+): Promise<MicrophoneLease> {
+  const key = JSON.stringify(getAudioConstraints(settings));
+  let entry = sharedMicrophones.get(key);
+  if (!entry) {
+    const newEntry: SharedEntry = {
+      holders: 0,
+      microphone: openMicrophone(settings).then(stream => {
+        const context = new AudioContext();
+        return { stream, context, source: context.createMediaStreamSource(stream) };
+      }),
+    };
+    entry = newEntry;
+    sharedMicrophones.set(key, newEntry);
+    // A failed open shouldn't stop the next attempt from trying again
+    newEntry.microphone.catch(() => {
+      if (sharedMicrophones.get(key) === newEntry) sharedMicrophones.delete(key);
+    });
+  }
+
+  const held = entry;
+  held.holders += 1;
+  let microphone: SharedMicrophone;
+  try {
+    microphone = await held.microphone;
+  } catch (error) {
+    held.holders -= 1;
+    throw error;
+  }
+
+  let released = false;
+  return {
+    ...microphone,
+    release: () => {
+      if (released) return;
+      released = true;
+      held.holders -= 1;
+      if (held.holders > 0) return;
+      if (sharedMicrophones.get(key) === held) sharedMicrophones.delete(key);
+      closeMicrophone(microphone);
+    },
+  };
+}
+
+// Device labels stay empty until the user has granted microphone access
+export async function listMicrophones() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' && device.deviceId);
+}
+
+export async function queryMicrophonePermission(): Promise<PermissionStatus | null> {
+  try {
+    return await navigator.permissions.query({ name: 'microphone' as PermissionName });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,33 @@
+import type { TranscriptSegment } from '@/lib/transcript';
+
+// Device pairing: a capture device (typically a phone) is used only as a
+// microphone for one participant, and its dictation moves into the transcript
+// of that participant's display device, where it can be edited.
+
+export type DeviceRole = 'peer' | 'capture' | 'display';
+
+export const DEVICE_ROLE_LABELS: {[key in DeviceRole]: string} = {
+  peer: 'Editor',
+  capture: 'Microphone',
+  display: 'Display',
+};
+
+// Sent by a display once it has taken captured segments, so the capture device can let go of them
+export const CAPTURE_ACK_EVENT = 'capture_ack';
+
+export interface CaptureAck {
+  userId: string;
+  captureId: string;
+  segmentIds: string[];
+}
+
+// A device is a capture device while paired with someone, and a display while anyone is paired with it
+export function getDeviceRole(userId: string, pairings: {[key: string]: string | null | undefined}): DeviceRole {
+  if (pairings[userId]) return 'capture';
+  return Object.values(pairings).includes(userId) ? 'display' : 'peer';
+}
+
+// Captured segments ready to move to the display: finished, and not already taken
+export function takeCapturedSegments(segments: TranscriptSegment[], taken: Set<string>) {
+  return segments.filter(segment => segment.isFinal && segment.text.trim() && !taken.has(segment.id));
+}
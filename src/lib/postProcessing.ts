@@ -0,0 +1,133 @@
+// Rule-based cleanup applied to recognized text before it is committed or
+// shared. Each rule is a small processor; a pipeline runs them in order.
+
+export interface ProcessingContext {
+  // Transcript so far, to tell whether the new text starts a sentence
+  previousText: string;
+  // The speaker paused after this text, so it ends a sentence
+  endsAtPause: boolean;
+  // BCP 47 code of the dictation language
+  language: string;
+}
+
+export type TextProcessor = (text: string, context: ProcessingContext) => string;
+
+// A user-defined substitution, matched as whole words regardless of case
+export interface TextReplacement {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface PostProcessingOptions {
+  autoPunctuation: boolean;
+  replacements: TextReplacement[];
+}
+
+// Words that usually open an English question
+const QUESTION_WORDS = new Set([
+  'who', 'what', 'when', 'where', 'why', 'how', 'which', 'whose',
+  'is', 'are', 'am', 'was', 'were', 'do', 'does', 'did', 'can', 'could',
+  'would', 'should', 'will', 'shall', 'may', 'might', 'have', 'has',
+]);
+
+// Scripts without spaces use full-width sentence punctuation
+const FULL_WIDTH_LANGUAGES = ['zh', 'ja'];
+
+const SENTENCE_END = /[.!?。？！]\s*$/;
+
+// Short forms whose period doesn't end the sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'vs', 'etc', 'approx', 'incl', 'no', 'fig',
+]);
+
+// A period after an abbreviation, or inside something like "e.g." or "gmail.com"
+function isAbbreviation(word: string) {
+  const bare = word.replace(/^[^\p{L}]+/u, '').toLowerCase();
+  return bare.includes('.') || ABBREVIATIONS.has(bare);
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function startsSentence(previousText: string) {
+  return !previousText.trim() || SENTENCE_END.test(previousText) || /\n\s*$/.test(previousText);
+}
+
+export function replacementsProcessor(replacements: TextReplacement[]): TextProcessor {
+  const rules = replacements
+    .filter(replacement => replacement.from.trim())
+    .map(replacement => ({
+      pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(replacement.from.trim())}(?![\\p{L}\\p{N}])`, 'giu'),
+      to: replacement.to,
+    }));
+
+  return (text) => rules.reduce(
+    (result, { pattern, to }) => result.replace(pattern, (match) =>
+      // Keep a capital the recognizer (or an earlier rule) already gave the word
+      match.charAt(0) !== match.charAt(0).toLowerCase() ? to.charAt(0).toUpperCase() + to.slice(1) : to
+    ),
+    text
+  );
+}
+
+// No space before punctuation, one space after it, and no runs of spaces. Periods
+// are left alone: in "gmail.com", "node.js" or "e.g." they don't end a sentence,
+// and commas and colons before digits are part of numbers and times.
+export const fixSpacing: TextProcessor = (text) => text
+  .replace(/[ \t]+([.,!?;:])/g, '$1')
+  .replace(/([,;:!?])(?=\p{L})/gu, '$1 ')
+  .replace(/[ \t]{2,}/g, ' ')
+  .replace(/[ \t]*\n[ \t]*/g, '\n');
+
+export const punctuateAtPause: TextProcessor = (text, { endsAtPause, language }) => {
+  if (!endsAtPause) return text;
+
+  const match = /^([\s\S]*?[\p{L}\p{N}])(\s*)$/u.exec(text);
+  if (!match) return text;
+  const [, body, trailing] = match;
+
+  const fullWidth = FULL_WIDTH_LANGUAGES.some(code => language.startsWith(code));
+  const lastSentence = body.split(/[.!?。？！\n]/).pop() ?? '';
+  const firstWord = lastSentence.trim().split(/\s+/)[0]?.toLowerCase() ?? '';
+  const isQuestion = language.startsWith('en') && QUESTION_WORDS.has(firstWord);
+
+  const mark = isQuestion ? (fullWidth ? '？' : '?') : (fullWidth ? '。' : '.');
+  return body + mark + trailing;
+};
+
+export const capitalizeSentences: TextProcessor = (text, { previousText, language }) => {
+  const upper = (letter: string) => letter.toLocaleUpperCase(language);
+  let result = text.replace(
+    /(\S*)([.!?]\s+|\n\s*)(\p{Ll})/gu,
+    (match, word: string, gap: string, letter: string) =>
+      gap.startsWith('.') && isAbbreviation(word) ? match : word + gap + upper(letter)
+  );
+
+  if (startsSentence(previousText)) {
+    result = result.replace(/^(\s*)(\p{Ll})/u, (_, space: string, letter: string) => space + upper(letter));
+  }
+  if (language.startsWith('en')) {
+    // The pronoun, including contractions like i'm and i'll
+    result = result.replace(/(^|[^\p{L}'’])i(?=$|[^\p{L}])/gu, '$1I');
+  }
+  return result;
+};
+
+export const DEFAULT_TEXT_PROCESSORS: TextProcessor[] = [fixSpacing, punctuateAtPause, capitalizeSentences];
+
+export function createPostProcessor(processors: TextProcessor[]) {
+  return (text: string, context: ProcessingContext) =>
+    processors.reduce((result, process) => process(result, context), text);
+}
+
+export type PostProcessor = ReturnType<typeof createPostProcessor>;
+
+// The pipeline for the user's settings: their replacements, then the built-in rules
+export function buildPostProcessor({ autoPunctuation, replacements }: PostProcessingOptions) {
+  return createPostProcessor([
+    replacementsProcessor(replacements),
+    ...(autoPunctuation ? DEFAULT_TEXT_PROCESSORS : [fixSpacing]),
+  ]);
+}
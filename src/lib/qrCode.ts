@@ -0,0 +1,344 @@
+// A small QR code encoder (byte mode, error correction level M), so invite
+// links can be shown as a code without handing them to a third-party service.
+// Follows ISO/IEC 18004; versions 1 to 40 are supported.
+
+export interface QrMatrix {
+  size: number;
+  // modules[y][x] is true for a dark module
+  modules: boolean[][];
+}
+
+// Per version (index 0 unused), for error correction level M
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+// Level M's two bits in the format information
+const ECC_FORMAT_BITS = 0;
+const MAX_VERSION = 40;
+
+// Penalty weights used to pick the most readable mask
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Modules left for data and error correction once the function patterns are placed
+function getRawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getDataCodewords(version: number) {
+  return Math.floor(getRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+}
+
+function getAlignmentPositions(version: number) {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function multiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// Mode indicator, length, the bytes themselves, then terminator and padding
+function encodeData(bytes: Uint8Array, version: number) {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+
+  const capacity = getDataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+// Split into blocks, add error correction to each, then interleave them
+function addErrorCorrection(data: number[], version: number) {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - rawCodewords % blockCount;
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1));
+    offset += blockData.length;
+    const ecc = reedSolomonRemainder(blockData, divisor);
+    // Short blocks get a placeholder so every block lines up when interleaving
+    if (i < shortBlockCount) blockData.push(0);
+    blocks.push([...blockData, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+function createMatrix(version: number) {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  const alignment = getAlignmentPositions(version);
+  const last = alignment.length - 1;
+  alignment.forEach((cx, i) => {
+    alignment.forEach((cy, j) => {
+      // These would overlap the finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      setFunction(a, b, getBit(bits, i));
+      setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Reserve the format areas; the real bits depend on the mask and are written later
+  drawFormatBits(size, 0, setFunction);
+
+  return { size, modules, isFunction };
+}
+
+function drawFormatBits(
+  size: number,
+  mask: number,
+  setFunction: (x: number, y: number, dark: boolean) => void
+) {
+  const data = (ECC_FORMAT_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+
+  for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i));
+  setFunction(8, 7, getBit(bits, 6));
+  setFunction(8, 8, getBit(bits, 7));
+  setFunction(7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i));
+
+  for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i));
+  // Always dark
+  setFunction(8, size - 8, true);
+}
+
+// Codewords run in two-module columns, zigzagging up and down from the bottom right
+function drawCodewords(codewords: number[], modules: boolean[][], isFunction: boolean[][]) {
+  const size = modules.length;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // The vertical timing pattern takes up a whole column
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && i < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+}
+
+function getPenalty(modules: boolean[][]) {
+  const size = modules.length;
+  let penalty = 0;
+  let dark = 0;
+  const lines: boolean[][] = [];
+  for (let y = 0; y < size; y++) {
+    lines.push(modules[y]);
+    lines.push(modules.map(row => row[y]));
+  }
+
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += PENALTY_RUN + run - 5;
+        run = 1;
+      }
+    }
+
+    // Dark-light-dark-dark-dark-light-dark with four light modules on either side
+    const text = line.map(module => (module ? '1' : '0')).join('');
+    for (let i = text.indexOf('1011101'); i !== -1; i = text.indexOf('1011101', i + 1)) {
+      const before = text.slice(Math.max(0, i - 4), i);
+      const after = text.slice(i + 7, i + 11);
+      if ((i < 4 || before === '0000') || (i + 11 > size || after === '0000')) {
+        penalty += PENALTY_FINDER_LIKE;
+      }
+    }
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (
+        x < size - 1 && y < size - 1 &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        penalty += PENALTY_BLOCK;
+      }
+    }
+  }
+
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_BALANCE;
+  return penalty;
+}
+
+// Throws if the text doesn't fit in the largest QR code
+export function encodeQrCode(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  while (4 + (version < 10 ? 8 : 16) + bytes.length * 8 > getDataCodewords(version) * 8) {
+    if (++version > MAX_VERSION) throw new Error('Too much data for a QR code');
+  }
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+  const { size, modules, isFunction } = createMatrix(version);
+  drawCodewords(codewords, modules, isFunction);
+
+  let best: boolean[][] | null = null;
+  let bestPenalty = Infinity;
+  MASKS.forEach((mask, index) => {
+    const candidate = modules.map((row, y) => row.map((dark, x) => (
+      !isFunction[y][x] && mask(x, y) ? !dark : dark
+    )));
+    drawFormatBits(size, index, (x, y, dark) => {
+      candidate[y][x] = dark;
+    });
+
+    const penalty = getPenalty(candidate);
+    if (penalty < bestPenalty) {
+      best = candidate;
+      bestPenalty = penalty;
+    }
+  });
+
+  return { size, modules: best! };
+}
@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Access granted by the session-auth edge function
+export interface SessionAccess {
+  sessionId: string;
+  accessToken: string; // Scoped to one session, used to join its private channel
+  expiresAt: number;
+  // Only returned to the creator; needed to rotate the passphrase or create invites
+  ownerToken?: string;
+}
+
+export interface SessionInvite {
+  sessionId: string;
+  inviteToken: string;
+  expiresAt: number | null;
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+async function invokeSessionAuth<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('session-auth', { body });
+
+  if (error) {
+    // Non-2xx responses carry a JSON body with a readable message
+    let message = error.message;
+    try {
+      const details = await error.context?.json();
+      if (details?.error) message = details.error;
+    } catch {
+      // Fall back to the generic message
+    }
+    throw new Error(message);
+  }
+
+  return data as T;
+}
+
+export function createSecureSession(passphrase: string) {
+  return invokeSessionAuth<SessionAccess>({ action: 'create', passphrase });
+}
+
+export function joinSecureSession(
+  sessionId: string,
+  credentials: { passphrase: string } | { inviteToken: string }
+) {
+  return invokeSessionAuth<SessionAccess>({ action: 'join', sessionId, ...credentials });
+}
+
+// Sets a new passphrase and revokes every token issued under the old one
+export function rotateSessionPassphrase(sessionId: string, ownerToken: string, passphrase: string) {
+  return invokeSessionAuth<SessionAccess>({ action: 'rotate', sessionId, ownerToken, passphrase });
+}
+
+export function createSessionInvite(sessionId: string, ownerToken: string, expiresInMinutes?: number) {
+  return invokeSessionAuth<SessionInvite>({ action: 'invite', sessionId, ownerToken, expiresInMinutes });
+}
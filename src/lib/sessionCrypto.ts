@@ -0,0 +1,156 @@
+// End-to-end encryption for session broadcasts. The session secret never goes
+// to the server: it travels in the URL fragment of the invite link, and every
+// payload is sealed with AES-GCM under a key derived from it.
+
+export interface EncryptedEnvelope {
+  v: 1;
+  senderId: string; // In the clear so failures can be attributed, but authenticated
+  iv: string;
+  ciphertext: string;
+}
+
+export type DecryptionFailure = 'unencrypted' | 'tampered';
+
+export class DecryptionError extends Error {
+  constructor(public reason: DecryptionFailure, public senderId: string | null) {
+    super(reason === 'unencrypted'
+      ? 'Message was not encrypted'
+      : 'Message was tampered with or encrypted with a different key');
+    this.name = 'DecryptionError';
+  }
+}
+
+const SECRET_BYTES = 32;
+const IV_BYTES = 12;
+const KEY_INFO = 'voicewrite-broadcast-v1';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// The event name and sender are bound to the ciphertext so neither can be swapped
+const additionalData = (event: string, senderId: string) => encoder.encode(`${event}\n${senderId}`);
+
+export function createSessionSecret() {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+export function isValidSessionSecret(secret: string) {
+  try {
+    return fromBase64Url(secret).length === SECRET_BYTES;
+  } catch {
+    return false;
+  }
+}
+
+// Each session gets its own key even if a secret were ever reused
+export async function deriveSessionKey(secret: string, sessionId: string) {
+  const material = await crypto.subtle.importKey('raw', fromBase64Url(secret), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(sessionId), info: encoder.encode(KEY_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptPayload(
+  key: CryptoKey,
+  event: string,
+  senderId: string,
+  payload: unknown
+): Promise<EncryptedEnvelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(event, senderId) },
+    key,
+    encoder.encode(JSON.stringify(payload))
+  );
+
+  return { v: 1, senderId, iv: toBase64Url(iv), ciphertext: toBase64Url(new Uint8Array(ciphertext)) };
+}
+
+function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  const envelope = value as EncryptedEnvelope | null;
+  return !!envelope &&
+    envelope.v === 1 &&
+    typeof envelope.senderId === 'string' &&
+    typeof envelope.iv === 'string' &&
+    typeof envelope.ciphertext === 'string';
+}
+
+// Throws a DecryptionError for plaintext, altered or foreign-key messages
+export async function decryptPayload(key: CryptoKey, event: string, envelope: unknown) {
+  if (!isEncryptedEnvelope(envelope)) {
+    const senderId = (envelope as { userId?: unknown } | null)?.userId;
+    throw new DecryptionError('unencrypted', typeof senderId === 'string' ? senderId : null);
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(envelope.iv), additionalData: additionalData(event, envelope.senderId) },
+      key,
+      fromBase64Url(envelope.ciphertext)
+    );
+    return JSON.parse(decoder.decode(plaintext)) as unknown;
+  } catch {
+    throw new DecryptionError('tampered', envelope.senderId);
+  }
+}
+
+// What an invite link carries; the invite token lets someone in without the passphrase
+export interface SessionLink {
+  sessionId: string;
+  secret: string;
+  inviteToken?: string;
+  // Open the link as a microphone for this participant
+  pairWith?: string;
+}
+
+// Invite links look like /s/<session>?invite=<token>#key=<secret>. The secret stays in
+// the fragment, which browsers never send to a server.
+export function buildSessionLink(sessionId: string, secret: string, inviteToken?: string) {
+  const query = inviteToken ? `?${new URLSearchParams({ invite: inviteToken })}` : '';
+  const fragment = new URLSearchParams({ key: secret });
+  return `${window.location.origin}/s/${encodeURIComponent(sessionId)}${query}#${fragment}`;
+}
+
+// Also accepts older links that carried the session in the fragment
+export function parseSessionLink(value: string): SessionLink | null {
+  const hashIndex = value.indexOf('#');
+  if (hashIndex === -1) return null;
+
+  const params = new URLSearchParams(value.slice(hashIndex + 1));
+  const address = value.slice(0, hashIndex);
+  const path = address.match(/\/s\/([^/?]+)/);
+  const sessionId = path ? decodeURIComponent(path[1]) : params.get('session');
+  const secret = params.get('key');
+  if (!sessionId || !secret) return null;
+
+  const queryIndex = address.indexOf('?');
+  const inviteToken = queryIndex === -1 ? null : new URLSearchParams(address.slice(queryIndex + 1)).get('invite');
+  const pairWith = params.get('pair');
+  return {
+    sessionId,
+    secret,
+    ...(inviteToken && { inviteToken }),
+    ...(pairWith && { pairWith }),
+  };
+}
+
+// Turns an invite link into one that pairs the device opening it as a microphone
+export function addPairingToLink(link: string, displayId: string) {
+  return `${link}&${new URLSearchParams({ pair: displayId })}`;
+}
@@ -0,0 +1,149 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { TranscriptSegment } from '@/lib/transcript';
+import { decryptPayload, encryptPayload } from '@/lib/sessionCrypto';
+
+export type SessionRecord = Tables<'sessions'>;
+export type ParticipantRecord = Tables<'participants'>;
+export type TranscriptSegmentRecord = Tables<'transcript_segments'>;
+
+// What the store needs to act on behalf of a participant
+export interface SessionStoreAccess {
+  sessionId: string;
+  accessToken: string;
+  key: CryptoKey;
+}
+
+export interface SessionHistory {
+  participantNames: {[key: string]: string};
+  // When each participant was last heard from, in epoch milliseconds
+  participantLastSeen: {[key: string]: number};
+  segmentsBySpeaker: {[key: string]: TranscriptSegment[]};
+  // Rows that failed to decrypt, e.g. written under a different key
+  unreadableCount: number;
+}
+
+// Binds each ciphertext to its segment id so rows can't be swapped around
+const SEGMENT_CONTEXT = 'transcript_segment';
+
+const bearer = (access: SessionStoreAccess) => `Bearer ${access.accessToken}`;
+
+async function toRecord(access: SessionStoreAccess, segment: TranscriptSegment) {
+  const { iv, ciphertext } = await encryptPayload(access.key, SEGMENT_CONTEXT, segment.id, segment.text);
+  return {
+    id: segment.id,
+    session_id: access.sessionId,
+    speaker_id: segment.speakerId,
+    start_time: new Date(segment.startTime).toISOString(),
+    end_time: new Date(segment.endTime).toISOString(),
+    confidence: segment.confidence,
+    language: segment.language,
+    iv,
+    ciphertext,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+async function fromRecord(access: SessionStoreAccess, record: TranscriptSegmentRecord): Promise<TranscriptSegment> {
+  const text = await decryptPayload(access.key, SEGMENT_CONTEXT, {
+    v: 1,
+    senderId: record.id,
+    iv: record.iv,
+    ciphertext: record.ciphertext,
+  });
+
+  return {
+    id: record.id,
+    speakerId: record.speaker_id,
+    startTime: new Date(record.start_time).getTime(),
+    endTime: new Date(record.end_time).getTime(),
+    text: String(text),
+    confidence: record.confidence,
+    language: record.language,
+    isFinal: true,
+  };
+}
+
+export async function saveParticipant(access: SessionStoreAccess, userId: string, displayName: string) {
+  const { error } = await supabase
+    .from('participants')
+    .upsert({
+      session_id: access.sessionId,
+      user_id: userId,
+      display_name: displayName,
+      last_seen_at: new Date().toISOString(),
+    })
+    .setHeader('Authorization', bearer(access));
+
+  if (error) throw error;
+}
+
+export async function saveSegments(access: SessionStoreAccess, segments: TranscriptSegment[]) {
+  if (segments.length === 0) return;
+
+  const records = await Promise.all(segments.map(segment => toRecord(access, segment)));
+  const { error } = await supabase
+    .from('transcript_segments')
+    .upsert(records)
+    .setHeader('Authorization', bearer(access));
+  if (error) throw error;
+
+  await supabase
+    .from('sessions')
+    .update({ last_active_at: new Date().toISOString() })
+    .eq('id', access.sessionId)
+    .setHeader('Authorization', bearer(access));
+}
+
+export async function deleteSegments(access: SessionStoreAccess, segmentIds: string[]) {
+  if (segmentIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('transcript_segments')
+    .delete()
+    .eq('session_id', access.sessionId)
+    .in('id', segmentIds)
+    .setHeader('Authorization', bearer(access));
+
+  if (error) throw error;
+}
+
+// Everything said in the session so far, grouped by speaker in time order
+export async function loadSessionHistory(access: SessionStoreAccess): Promise<SessionHistory> {
+  const [participantsResult, segmentsResult] = await Promise.all([
+    supabase
+      .from('participants')
+      .select('*')
+      .eq('session_id', access.sessionId)
+      .setHeader('Authorization', bearer(access)),
+    supabase
+      .from('transcript_segments')
+      .select('*')
+      .eq('session_id', access.sessionId)
+      .order('start_time', { ascending: true })
+      .setHeader('Authorization', bearer(access)),
+  ]);
+
+  if (participantsResult.error) throw participantsResult.error;
+  if (segmentsResult.error) throw segmentsResult.error;
+
+  const participantNames: {[key: string]: string} = {};
+  const participantLastSeen: {[key: string]: number} = {};
+  participantsResult.data.forEach(participant => {
+    participantNames[participant.user_id] = participant.display_name;
+    participantLastSeen[participant.user_id] = new Date(participant.last_seen_at).getTime();
+  });
+
+  const segmentsBySpeaker: {[key: string]: TranscriptSegment[]} = {};
+  let unreadableCount = 0;
+  for (const record of segmentsResult.data) {
+    try {
+      const segment = await fromRecord(access, record);
+      (segmentsBySpeaker[segment.speakerId] ??= []).push(segment);
+    } catch {
+      unreadableCount++;
+    }
+  }
+
+  return { participantNames, participantLastSeen, segmentsBySpeaker, unreadableCount };
+}
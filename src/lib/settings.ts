@@ -0,0 +1,84 @@
+import type { SpeechEngineId } from '@/lib/speech';
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+import type { VoiceCommand } from '@/lib/voiceCommands';
+import { DEFAULT_MICROPHONE_SETTINGS, MicrophoneSettings } from '@/lib/microphone';
+import { DEFAULT_SHORTCUTS, ShortcutBindings } from '@/lib/shortcuts';
+import { DEFAULT_VOICE_ACTIVITY_SETTINGS, VoiceActivitySettings } from '@/lib/vad';
+import type { TextReplacement } from '@/lib/postProcessing';
+
+// How the microphone level is drawn: one loudness meter or a spectrum of bars
+export type VisualizerMode = 'level' | 'bars';
+
+// User preferences persisted in localStorage
+export interface AppSettings {
+  speechEngine: SpeechEngineId;
+  speechServerUrl: string;
+  // BCP 47 language code used for dictation
+  language: string;
+  // Broadcast unconfirmed interim text to peers in a shared session
+  shareInterimResults: boolean;
+  voiceCommandsEnabled: boolean;
+  // User-defined commands, applied alongside the built-in ones
+  customVoiceCommands: VoiceCommand[];
+  // Capitalize sentences and punctuate at pauses
+  autoPunctuation: boolean;
+  // User-defined word substitutions, applied before punctuation
+  textReplacements: TextReplacement[];
+  // Keep the microphone audio on this device, linked to each segment for playback
+  recordAudio: boolean;
+  visualizerMode: VisualizerMode;
+  // Input device and processing used for every capture
+  microphone: MicrophoneSettings;
+  // Detect speech on the microphone to split segments at pauses and stop after long silence
+  voiceActivity: VoiceActivitySettings;
+  // Record only while the push-to-talk key or the microphone button is held
+  pushToTalk: boolean;
+  shortcuts: ShortcutBindings;
+}
+
+const SETTINGS_STORAGE_KEY = 'voicewrite:settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  speechEngine: 'web-speech',
+  speechServerUrl: '',
+  language: DEFAULT_LANGUAGE,
+  shareInterimResults: true,
+  voiceCommandsEnabled: true,
+  customVoiceCommands: [],
+  autoPunctuation: true,
+  textReplacements: [],
+  recordAudio: false,
+  visualizerMode: 'bars',
+  microphone: DEFAULT_MICROPHONE_SETTINGS,
+  voiceActivity: DEFAULT_VOICE_ACTIVITY_SETTINGS,
+  pushToTalk: false,
+  shortcuts: DEFAULT_SHORTCUTS,
+};
+
+export function loadSettings(): AppSettings {
+  if (typeof window === 'undefined') return DEFAULT_SETTINGS;
+
+  try {
+    const stored = window.localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+
+    // Merge with defaults so newly added settings (and shortcuts) always have a value
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      shortcuts: { ...DEFAULT_SHORTCUTS, ...parsed.shortcuts },
+    };
+  } catch (e) {
+    console.error('Error loading settings', e);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings) {
+  try {
+    window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Error saving settings', e);
+  }
+}
@@ -0,0 +1,76 @@
+// Keyboard shortcuts, stored as combos like "Alt+KeyR". Physical key codes are
+// used so shortcuts stay in place across keyboard layouts.
+
+export type ShortcutAction =
+  | 'toggleRecording'
+  | 'pushToTalk'
+  | 'clear'
+  | 'copy'
+  | 'export'
+  | 'showShortcuts';
+
+export type ShortcutBindings = {[key in ShortcutAction]: string};
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'toggleRecording', label: 'Start or stop recording' },
+  { action: 'pushToTalk', label: 'Hold to talk (push-to-talk mode)' },
+  { action: 'clear', label: 'Clear the transcript' },
+  { action: 'copy', label: 'Copy the transcript' },
+  { action: 'export', label: 'Open the export menu' },
+  { action: 'showShortcuts', label: 'Show keyboard shortcuts' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  toggleRecording: 'Alt+KeyR',
+  pushToTalk: 'Space',
+  clear: 'Alt+KeyX',
+  copy: 'Alt+KeyC',
+  export: 'Alt+KeyE',
+  showShortcuts: 'Shift+Slash',
+};
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+const MODIFIER_CODES = new Set([
+  'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight',
+  'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight',
+]);
+
+// The combo a key event represents, or null for a lone modifier key
+export function comboFromEvent(event: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>) {
+  if (MODIFIER_CODES.has(event.code)) return null;
+
+  const pressed = {
+    Ctrl: event.ctrlKey,
+    Alt: event.altKey,
+    Shift: event.shiftKey,
+    Meta: event.metaKey,
+  };
+  return [...MODIFIERS.filter(modifier => pressed[modifier]), event.code].join('+');
+}
+
+// Key code of a combo without its modifiers, to match the release of a held key
+export function comboKey(combo: string) {
+  return combo.split('+').pop() ?? '';
+}
+
+// Plain keys would fire while typing, so only combos with these are global in text fields
+export function hasCommandModifier(combo: string) {
+  return /(^|\+)(Ctrl|Alt|Meta)\+/.test(combo);
+}
+
+const KEY_NAMES: {[key: string]: string} = {
+  Space: 'Space',
+  Slash: '/',
+  Backquote: '`',
+  Period: '.',
+  Comma: ',',
+  Enter: 'Enter',
+  Escape: 'Esc',
+};
+
+export function describeCombo(combo: string) {
+  return combo
+    .split('+')
+    .map(part => KEY_NAMES[part] ?? part.replace(/^Key|^Digit/, ''))
+    .join(' + ');
+}
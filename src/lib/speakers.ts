@@ -0,0 +1,20 @@
+// Distinct hues for speaker labels, chosen to stay readable in light and dark mode
+const SPEAKER_COLORS = [
+  'hsl(212 80% 50%)',
+  'hsl(150 60% 38%)',
+  'hsl(280 60% 55%)',
+  'hsl(28 90% 50%)',
+  'hsl(340 70% 52%)',
+  'hsl(190 70% 40%)',
+  'hsl(45 85% 42%)',
+  'hsl(0 0% 45%)',
+];
+
+// Same user always gets the same color on every device
+export function getSpeakerColor(speakerId: string) {
+  let hash = 0;
+  for (let i = 0; i < speakerId.length; i++) {
+    hash = (hash * 31 + speakerId.charCodeAt(i)) | 0;
+  }
+  return SPEAKER_COLORS[Math.abs(hash) % SPEAKER_COLORS.length];
+}
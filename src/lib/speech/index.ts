@@ -0,0 +1,32 @@
+import { webSpeechEngineFactory } from './webSpeechEngine';
+import { webSocketEngineFactory } from './webSocketEngine';
+import type { SpeechEngine, SpeechEngineFactory, SpeechEngineId, SpeechEngineOptions } from './types';
+
+export type * from './types';
+
+// Registered engines, in fallback order
+export const speechEngineFactories: SpeechEngineFactory[] = [
+  webSpeechEngineFactory,
+  webSocketEngineFactory,
+];
+
+// Pick the preferred engine if it works here, otherwise the first one that does
+export function resolveSpeechEngine(
+  preferredId: SpeechEngineId,
+  options: SpeechEngineOptions
+): SpeechEngineFactory | null {
+  const preferred = speechEngineFactories.find(factory => factory.id === preferredId);
+  if (preferred?.isSupported(options)) {
+    return preferred;
+  }
+
+  return speechEngineFactories.find(factory => factory.isSupported(options)) ?? null;
+}
+
+export function createSpeechEngine(
+  preferredId: SpeechEngineId,
+  options: SpeechEngineOptions
+): SpeechEngine | null {
+  const factory = resolveSpeechEngine(preferredId, options);
+  return factory ? factory.create(options) : null;
+}
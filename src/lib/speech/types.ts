@@ -0,0 +1,55 @@
+import type { MicrophoneSettings } from '@/lib/microphone';
+
+// Identifiers for the speech engines the app knows how to build
+export type SpeechEngineId = 'web-speech' | 'websocket';
+
+// What an engine can do, so the UI can adapt (e.g. hide interim text)
+export interface SpeechEngineCapabilities {
+  continuous: boolean;
+  interimResults: boolean;
+  requiresNetwork: boolean;
+}
+
+export interface SpeechEngineResult {
+  transcript: string;
+  isFinal: boolean;
+  confidence?: number;
+}
+
+// Error codes mirror the Web Speech API so the hook can handle every engine the same way
+export interface SpeechEngineError {
+  error: 'no-speech' | 'audio-capture' | 'network' | 'not-allowed' | 'aborted' | string;
+  message?: string;
+}
+
+export interface SpeechEngineOptions {
+  lang: string;
+  // Only used by engines that stream audio to a server
+  serverUrl?: string;
+  // Engines that capture audio themselves use this device; the Web Speech API can't choose
+  microphone?: MicrophoneSettings;
+}
+
+export interface SpeechEngine {
+  readonly id: SpeechEngineId;
+  readonly capabilities: SpeechEngineCapabilities;
+  start: () => void;
+  stop: () => void;
+  onResult: (handler: (result: SpeechEngineResult) => void) => void;
+  onError: (handler: (error: SpeechEngineError) => void) => void;
+  // Fired when the engine stops capturing audio, usually shortly before it ends
+  onAudioEnd: (handler: () => void) => void;
+  // Fired whenever the engine stops, whether asked to or on its own
+  onEnd: (handler: () => void) => void;
+  // Change the recognition language; takes effect from the next start
+  setLang: (lang: string) => void;
+  // Release any underlying resources (recognizers, sockets, media streams)
+  dispose: () => void;
+}
+
+export interface SpeechEngineFactory {
+  id: SpeechEngineId;
+  label: string;
+  isSupported: (options: SpeechEngineOptions) => boolean;
+  create: (options: SpeechEngineOptions) => SpeechEngine;
+}
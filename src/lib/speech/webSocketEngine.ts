@@ -0,0 +1,233 @@
+import { acquireMicrophone, MicrophoneLease } from '@/lib/microphone';
+import type {
+  SpeechEngine,
+  SpeechEngineError,
+  SpeechEngineFactory,
+  SpeechEngineOptions,
+  SpeechEngineResult,
+} from './types';
+
+// How often MediaRecorder hands us an audio chunk to stream
+const CHUNK_INTERVAL_MS = 250;
+// After `stop`, how long to wait for the server's last results before closing anyway
+const STOP_TIMEOUT_MS = 3000;
+
+// Messages the streaming server is expected to send back
+type ServerMessage =
+  | { type: 'result'; transcript: string; isFinal: boolean; confidence?: number }
+  | { type: 'error'; error: string; message?: string }
+  | { type: 'end' };
+
+/**
+ * Streams microphone audio to a transcription server over a WebSocket.
+ * The server receives a JSON `start` message with the language, then binary
+ * audio chunks, and replies with `result` / `error` JSON messages. After a
+ * `stop` message it sends its last results, then `end` or closes the socket.
+ */
+function createWebSocketEngine(initialOptions: SpeechEngineOptions): SpeechEngine {
+  const options = { ...initialOptions };
+  let socket: WebSocket | null = null;
+  // A stopped session's socket, kept open until the server has sent its last results
+  let closingSocket: WebSocket | null = null;
+  let closeTimer: ReturnType<typeof setTimeout> | null = null;
+  let recorder: MediaRecorder | null = null;
+  let microphone: MicrophoneLease | null = null;
+  let resultHandler: ((result: SpeechEngineResult) => void) | null = null;
+  let errorHandler: ((error: SpeechEngineError) => void) | null = null;
+  let audioEndHandler: (() => void) | null = null;
+  let endHandler: (() => void) | null = null;
+
+  const emitError = (error: SpeechEngineError) => {
+    errorHandler?.(error);
+  };
+
+  // Stop capturing; the last chunk and then `onstop` still arrive afterwards
+  const releaseAudio = () => {
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+    recorder = null;
+
+    microphone?.release();
+    microphone = null;
+  };
+
+  const closeSocket = (target: WebSocket) => {
+    if (target.readyState <= WebSocket.OPEN) {
+      target.close();
+    }
+  };
+
+  const teardown = () => {
+    releaseAudio();
+
+    if (closeTimer) {
+      clearTimeout(closeTimer);
+      closeTimer = null;
+    }
+    if (closingSocket) {
+      closeSocket(closingSocket);
+      closingSocket = null;
+    }
+    if (socket) {
+      closeSocket(socket);
+    }
+    socket = null;
+  };
+
+  const start = () => {
+    if (socket) {
+      throw new DOMException('Streaming already started', 'InvalidStateError');
+    }
+    if (!options.serverUrl) {
+      throw new Error('No speech server address is set');
+    }
+    // Starting again gives up on whatever the previous session had left to say
+    if (closingSocket) {
+      closingSocket.onclose = null;
+      teardown();
+    }
+
+    const currentSocket = new WebSocket(options.serverUrl);
+    socket = currentSocket;
+    currentSocket.binaryType = 'arraybuffer';
+
+    currentSocket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data) as ServerMessage;
+        if (message.type === 'result') {
+          resultHandler?.({
+            transcript: message.transcript,
+            isFinal: message.isFinal,
+            confidence: message.confidence,
+          });
+        } else if (message.type === 'error') {
+          emitError({ error: message.error, message: message.message });
+        } else if (message.type === 'end') {
+          closeSocket(currentSocket);
+        }
+      } catch (e) {
+        console.error('Invalid message from speech server', e);
+      }
+    };
+
+    currentSocket.onclose = () => {
+      if (socket === currentSocket) {
+        // The server hung up while we were still streaming
+        teardown();
+      } else if (closingSocket === currentSocket) {
+        if (closeTimer) clearTimeout(closeTimer);
+        closeTimer = null;
+        closingSocket = null;
+      }
+      endHandler?.();
+    };
+
+    currentSocket.onerror = () => {
+      emitError({ error: 'network', message: 'Could not reach the speech server' });
+      if (socket === currentSocket) teardown();
+    };
+
+    currentSocket.onopen = async () => {
+      currentSocket.send(JSON.stringify({ type: 'start', lang: options.lang }));
+
+      let acquired: MicrophoneLease;
+      try {
+        acquired = await acquireMicrophone(options.microphone);
+      } catch (e) {
+        emitError({ error: 'audio-capture', message: String(e) });
+        teardown();
+        return;
+      }
+      // Stopped while the microphone was opening
+      if (socket !== currentSocket) {
+        acquired.release();
+        return;
+      }
+      microphone = acquired;
+
+      recorder = new MediaRecorder(acquired.stream);
+      recorder.onstop = () => {
+        audioEndHandler?.();
+        // Only now has the last chunk gone out, so the server can finish up
+        if (currentSocket.readyState === WebSocket.OPEN) {
+          currentSocket.send(JSON.stringify({ type: 'stop' }));
+        }
+      };
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0 && currentSocket.readyState === WebSocket.OPEN) {
+          currentSocket.send(event.data);
+        }
+      };
+      recorder.start(CHUNK_INTERVAL_MS);
+    };
+  };
+
+  // Stop listening at once, but keep the connection until the last results are in
+  const stop = () => {
+    const stopping = socket;
+    if (!stopping) return;
+    socket = null;
+
+    if (stopping.readyState !== WebSocket.OPEN) {
+      // Nothing was streamed yet, so there is nothing to wait for
+      releaseAudio();
+      closeSocket(stopping);
+      return;
+    }
+
+    const hasRecorder = !!recorder && recorder.state !== 'inactive';
+    releaseAudio();
+    if (!hasRecorder) {
+      stopping.send(JSON.stringify({ type: 'stop' }));
+    }
+
+    closingSocket = stopping;
+    closeTimer = setTimeout(() => {
+      closeTimer = null;
+      closeSocket(stopping);
+    }, STOP_TIMEOUT_MS);
+  };
+
+  return {
+    id: 'websocket',
+    capabilities: {
+      continuous: true,
+      interimResults: true,
+      requiresNetwork: true,
+    },
+    start,
+    stop,
+    onResult: (handler) => {
+      resultHandler = handler;
+    },
+    onError: (handler) => {
+      errorHandler = handler;
+    },
+    setLang: (lang) => {
+      options.lang = lang;
+    },
+    onAudioEnd: (handler) => {
+      audioEndHandler = handler;
+    },
+    onEnd: (handler) => {
+      endHandler = handler;
+    },
+    dispose: () => {
+      endHandler = null;
+      teardown();
+    },
+  };
+}
+
+export const webSocketEngineFactory: SpeechEngineFactory = {
+  id: 'websocket',
+  label: 'Streaming server (WebSocket)',
+  isSupported: (options) =>
+    typeof window !== 'undefined' &&
+    'WebSocket' in window &&
+    'MediaRecorder' in window &&
+    !!navigator.mediaDevices?.getUserMedia &&
+    !!options.serverUrl,
+  create: createWebSocketEngine,
+};
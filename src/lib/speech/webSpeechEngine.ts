@@ -0,0 +1,123 @@
+import type {
+  SpeechEngine,
+  SpeechEngineError,
+  SpeechEngineFactory,
+  SpeechEngineOptions,
+  SpeechEngineResult,
+} from './types';
+
+// Look up the native recognizer, including the prefixed version used by Chrome and Edge
+function getSpeechRecognitionAPI(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+
+  // Using 'in' operator is more reliable for TypeScript
+  return 'SpeechRecognition' in window
+    ? window['SpeechRecognition' as keyof Window] as unknown as SpeechRecognitionConstructor
+    : 'webkitSpeechRecognition' in window
+      ? window['webkitSpeechRecognition' as keyof Window] as unknown as SpeechRecognitionConstructor
+      : null;
+}
+
+function createWebSpeechEngine(options: SpeechEngineOptions): SpeechEngine {
+  const SpeechRecognitionAPI = getSpeechRecognitionAPI();
+  if (!SpeechRecognitionAPI) {
+    throw new Error('Web Speech API is not available in this browser');
+  }
+
+  const recognition = new SpeechRecognitionAPI();
+  let resultHandler: ((result: SpeechEngineResult) => void) | null = null;
+  let errorHandler: ((error: SpeechEngineError) => void) | null = null;
+  let audioEndHandler: (() => void) | null = null;
+  let endHandler: (() => void) | null = null;
+
+  // Performance optimizations
+  recognition.continuous = true;
+  recognition.interimResults = true; // Stream hypotheses so the transcript feels live
+  recognition.lang = options.lang;
+  recognition.maxAlternatives = 1; // Limit alternatives for faster processing
+
+  recognition.onresult = (event: Event) => {
+    // Type assertion to use the SpeechRecognitionEvent interface
+    const speechEvent = event as unknown as SpeechRecognitionEvent;
+    let finalTranscript = '';
+    let interimTranscript = '';
+    let confidence = 0;
+
+    // Process only from the last result index for better performance
+    for (let i = speechEvent.resultIndex; i < speechEvent.results.length; i++) {
+      const alternative = speechEvent.results[i][0] as unknown as SpeechRecognitionAlternative;
+
+      if (speechEvent.results[i].isFinal) {
+        finalTranscript += alternative.transcript;
+        confidence = Math.max(confidence, alternative.confidence);
+      } else {
+        interimTranscript += alternative.transcript;
+      }
+    }
+
+    if (finalTranscript) {
+      resultHandler?.({ transcript: finalTranscript, isFinal: true, confidence });
+    }
+
+    // Always report the interim tail, even when empty, so stale hypotheses get cleared
+    resultHandler?.({ transcript: interimTranscript, isFinal: false });
+  };
+
+  recognition.onerror = (event: Event) => {
+    const error = event as unknown as { error: string; message?: string };
+    errorHandler?.({ error: error.error, message: error.message });
+  };
+
+  // Chrome ends continuous recognition on its own after silence or about a minute
+  recognition.onaudioend = () => {
+    audioEndHandler?.();
+  };
+
+  recognition.onend = () => {
+    endHandler?.();
+  };
+
+  return {
+    id: 'web-speech',
+    capabilities: {
+      continuous: true,
+      interimResults: true,
+      requiresNetwork: true,
+    },
+    start: () => recognition.start(),
+    stop: () => recognition.stop(),
+    onResult: (handler) => {
+      resultHandler = handler;
+    },
+    onError: (handler) => {
+      errorHandler = handler;
+    },
+    setLang: (lang) => {
+      recognition.lang = lang;
+    },
+    onAudioEnd: (handler) => {
+      audioEndHandler = handler;
+    },
+    onEnd: (handler) => {
+      endHandler = handler;
+    },
+    dispose: () => {
+      recognition.onresult = null;
+      recognition.onerror = null;
+      recognition.onaudioend = null;
+      recognition.onend = null;
+      try {
+        recognition.abort();
+      } catch (e) {
+        console.error('Error aborting recognition', e);
+      }
+    },
+  };
+}
+
+export const webSpeechEngineFactory: SpeechEngineFactory = {
+  id: 'web-speech',
+  label: 'Browser (Web Speech API)',
+  isSupported: () => getSpeechRecognitionAPI() !== null,
+  create: createWebSpeechEngine,
+};
@@ -0,0 +1,151 @@
+// Where a segment's speech sits in an audio recording stored on this device
+export interface SegmentAudio {
+  recordingId: string;
+  start: number; // Milliseconds from the start of the recording
+  end: number;
+}
+
+// A piece of recognized (or typed) speech. The flat transcript is derived from these.
+export interface TranscriptSegment {
+  id: string;
+  speakerId: string;
+  startTime: number; // Epoch milliseconds when the speaker started this segment
+  endTime: number;
+  text: string;
+  confidence: number | null; // null for typed or edited text
+  language: string;
+  isFinal: boolean;
+  audio?: SegmentAudio;
+}
+
+interface SegmentLayout {
+  text: string;
+  // [start, end) offsets of each segment's text within the flat transcript
+  ranges: [number, number][];
+}
+
+// Join a new piece onto existing text, skipping the space before punctuation and after line breaks
+export function joinTranscript(previous: string, addition: string) {
+  if (!previous) return addition.replace(/^\s+/, '');
+  if (!addition) return previous;
+  if (/^[.,!?;:\n]/.test(addition) || /\n$/.test(previous)) {
+    return previous + addition;
+  }
+  return `${previous} ${addition}`;
+}
+
+export function createSegmentId() {
+  return `seg-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export function createSegment(
+  fields: Pick<TranscriptSegment, 'speakerId' | 'text' | 'language'> & Partial<TranscriptSegment>
+): TranscriptSegment {
+  const now = Date.now();
+  return {
+    id: createSegmentId(),
+    startTime: now,
+    endTime: now,
+    confidence: null,
+    isFinal: true,
+    ...fields,
+  };
+}
+
+// Work out where each segment lands in the flat text, using the same joining rules as dictation
+function layoutSegments(segments: TranscriptSegment[]): SegmentLayout {
+  let text = '';
+  const ranges: [number, number][] = [];
+
+  for (const segment of segments) {
+    // The first segment is taken as is: whitespace typed at the very start has to survive
+    // the round trip through applyTextEdit, or the editor's text would change under the caret
+    const joined = ranges.length === 0 ? segment.text : joinTranscript(text, segment.text);
+    // Measure from the end, since joining may add a separator
+    ranges.push([text ? joined.length - segment.text.length : 0, joined.length]);
+    text = joined;
+  }
+
+  return { text, ranges };
+}
+
+export function segmentsToText(segments: TranscriptSegment[]) {
+  return layoutSegments(segments).text;
+}
+
+// Recordings the segments play back from, each listed once
+export function getRecordingIds(segments: TranscriptSegment[]) {
+  return [...new Set(segments.flatMap(segment => segment.audio ? [segment.audio.recordingId] : []))];
+}
+
+/**
+ * Map a free-form edit of the flat transcript back onto segments. Segments
+ * outside the edited region keep their metadata; the ones it touches are
+ * merged into a single edited segment.
+ */
+export function applyTextEdit(
+  segments: TranscriptSegment[],
+  newText: string,
+  defaults: Pick<TranscriptSegment, 'speakerId' | 'language'>
+): TranscriptSegment[] {
+  const { text: oldText, ranges } = layoutSegments(segments);
+  if (oldText === newText) return segments;
+
+  if (segments.length === 0) {
+    return newText ? [createSegment({ ...defaults, text: newText })] : [];
+  }
+
+  // Find the changed region by trimming the common prefix and suffix
+  let prefix = 0;
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = Math.min(oldText.length, newText.length) - prefix;
+  while (
+    suffix < maxSuffix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) suffix++;
+
+  const changeStart = prefix;
+  const changeEnd = oldText.length - suffix;
+
+  // Every segment that overlaps or touches the changed region gets merged
+  let first = ranges.findIndex(([, end]) => end >= changeStart);
+  let last = -1;
+  ranges.forEach(([start], index) => {
+    if (start <= changeEnd) last = index;
+  });
+  if (first === -1) first = segments.length - 1;
+  if (last < first) last = first;
+
+  const mergedStart = Math.min(ranges[first][0], changeStart);
+  const mergedEndInOld = Math.max(ranges[last][1], changeEnd);
+  const mergedText = newText.slice(mergedStart, newText.length - (oldText.length - mergedEndInOld));
+
+  const firstAudio = segments[first].audio;
+  const lastAudio = segments[last].audio;
+  const merged: TranscriptSegment = {
+    ...segments[first],
+    endTime: segments[last].endTime,
+    text: mergedText,
+    confidence: null,
+    // The merged text covers the audio of every segment it replaced
+    audio: firstAudio && lastAudio?.recordingId === firstAudio.recordingId
+      ? { ...firstAudio, end: lastAudio.end }
+      : firstAudio,
+  };
+
+  const result = [
+    ...segments.slice(0, first),
+    ...(mergedText ? [merged] : []),
+    ...segments.slice(last + 1),
+  ];
+
+  // Joining rules can't always reproduce unusual whitespace edits; keep the text exact if so
+  if (segmentsToText(result) !== newText) {
+    return newText ? [{ ...merged, id: createSegmentId(), text: newText }] : [];
+  }
+
+  return result;
+}
@@ -0,0 +1,81 @@
+import { format } from 'date-fns';
+import { segmentsToText, TranscriptSegment } from '@/lib/transcript';
+
+// A dictation kept in the local library after it leaves the main screen
+export interface SavedTranscript {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  segments: TranscriptSegment[];
+  // Display names by speaker id, captured when the transcript was saved
+  participants: {[key: string]: string};
+  sessionId?: string;
+}
+
+export interface TranscriptStats {
+  // Milliseconds from the first segment starting to the last one ending
+  duration: number;
+  wordCount: number;
+  speakerCount: number;
+}
+
+const LIBRARY_STORAGE_KEY = 'voicewrite:transcripts';
+
+export function createTranscriptId() {
+  return `tr-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export function defaultTranscriptTitle(date = new Date()) {
+  return `Dictation ${format(date, 'd MMM yyyy, HH:mm')}`;
+}
+
+export function getTranscriptStats(transcript: SavedTranscript): TranscriptStats {
+  const { segments } = transcript;
+  const text = segmentsToText(segments).trim();
+
+  return {
+    duration: segments.length > 0
+      ? Math.max(...segments.map(segment => segment.endTime)) - Math.min(...segments.map(segment => segment.startTime))
+      : 0,
+    wordCount: text ? text.split(/\s+/).length : 0,
+    speakerCount: new Set(segments.map(segment => segment.speakerId)).size,
+  };
+}
+
+// e.g. "4:05" or "1:02:09"
+export function formatDuration(milliseconds: number) {
+  const totalSeconds = Math.round(milliseconds / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export function loadLibrary(): SavedTranscript[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = window.localStorage.getItem(LIBRARY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error('Error loading transcript library', e);
+    return [];
+  }
+}
+
+// Returns false when the library could not be written, usually because storage is full
+export function saveLibrary(transcripts: SavedTranscript[]) {
+  try {
+    window.localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(transcripts));
+    return true;
+  } catch (e) {
+    console.error('Error saving transcript library', e);
+    return false;
+  }
+}
+
+// Lets other tabs pick up library changes
+export function isLibraryStorageEvent(event: StorageEvent) {
+  return event.key === LIBRARY_STORAGE_KEY;
+}
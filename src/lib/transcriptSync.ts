@@ -0,0 +1,129 @@
+import type { TranscriptSegment } from '@/lib/transcript';
+
+// Versioned transcript sync. Each participant owns one stream of segments and
+// shares changes to it as numbered deltas; receivers apply them strictly in
+// order and ask the sender for a full snapshot when they notice a gap.
+
+// Replace segments [start, start + deleteCount) of the stream with `segments`
+export type SegmentOp =
+  | { type: 'append'; segments: TranscriptSegment[] }
+  | { type: 'replace'; start: number; deleteCount: number; segments: TranscriptSegment[] };
+
+interface StreamMessage {
+  userId: string;
+  // Changes whenever the sender starts over, e.g. after a reload, so old numbering can't clash
+  streamId: string;
+  // Increases by one with every change to the stream
+  seq: number;
+  timestamp: number;
+}
+
+export interface TranscriptDelta extends StreamMessage {
+  kind: 'delta';
+  op: SegmentOp;
+}
+
+// The whole stream as of `seq`
+export interface TranscriptSnapshot extends StreamMessage {
+  kind: 'snapshot';
+  segments: TranscriptSegment[];
+}
+
+export interface SnapshotRequest {
+  kind: 'snapshot-request';
+  userId: string;
+  // Whose stream is wanted; everyone's when missing
+  targetId?: string;
+}
+
+// What a receiver knows of one sender's stream
+export interface RemoteStream {
+  streamId: string;
+  seq: number;
+  segments: TranscriptSegment[];
+}
+
+export type StreamUpdate =
+  | { status: 'applied'; stream: RemoteStream }
+  | { status: 'duplicate' }
+  | { status: 'gap' };
+
+export function createStreamId() {
+  return `stream-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+function segmentsEqual(a: TranscriptSegment, b: TranscriptSegment) {
+  return a === b || (
+    a.id === b.id &&
+    a.speakerId === b.speakerId &&
+    a.startTime === b.startTime &&
+    a.endTime === b.endTime &&
+    a.text === b.text &&
+    a.confidence === b.confidence &&
+    a.language === b.language &&
+    a.isFinal === b.isFinal &&
+    a.audio?.recordingId === b.audio?.recordingId &&
+    a.audio?.start === b.audio?.start &&
+    a.audio?.end === b.audio?.end
+  );
+}
+
+// The smallest single operation turning `previous` into `next`, or null if they match
+export function diffSegments(previous: TranscriptSegment[], next: TranscriptSegment[]): SegmentOp | null {
+  let prefix = 0;
+  while (prefix < previous.length && prefix < next.length && segmentsEqual(previous[prefix], next[prefix])) {
+    prefix++;
+  }
+  if (prefix === previous.length && prefix === next.length) return null;
+  if (prefix === previous.length) return { type: 'append', segments: next.slice(prefix) };
+
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < next.length - prefix &&
+    segmentsEqual(previous[previous.length - 1 - suffix], next[next.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  return {
+    type: 'replace',
+    start: prefix,
+    deleteCount: previous.length - prefix - suffix,
+    segments: next.slice(prefix, next.length - suffix),
+  };
+}
+
+// Null when the operation doesn't fit the segments, i.e. they're out of step with the sender
+export function applySegmentOp(segments: TranscriptSegment[], op: SegmentOp) {
+  if (op.type === 'append') return [...segments, ...op.segments];
+  if (op.start < 0 || op.deleteCount < 0 || op.start + op.deleteCount > segments.length) return null;
+
+  return [
+    ...segments.slice(0, op.start),
+    ...op.segments,
+    ...segments.slice(op.start + op.deleteCount),
+  ];
+}
+
+export function applyStreamMessage(
+  stream: RemoteStream | undefined,
+  message: TranscriptDelta | TranscriptSnapshot
+): StreamUpdate {
+  const sameStream = stream?.streamId === message.streamId;
+
+  if (message.kind === 'snapshot') {
+    if (sameStream && message.seq < stream.seq) return { status: 'duplicate' };
+    return {
+      status: 'applied',
+      stream: { streamId: message.streamId, seq: message.seq, segments: message.segments },
+    };
+  }
+
+  if (!sameStream || message.seq > stream.seq + 1) return { status: 'gap' };
+  if (message.seq <= stream.seq) return { status: 'duplicate' };
+
+  const segments = applySegmentOp(stream.segments, message.op);
+  if (!segments) return { status: 'gap' };
+  return { status: 'applied', stream: { streamId: stream.streamId, seq: message.seq, segments } };
+}
@@ -0,0 +1,90 @@
+// Energy-based voice activity detection. Fed one loudness reading at a time,
+// it tracks the background noise level and reports when speech starts and stops.
+
+export type VoiceActivityEvent =
+  | { type: 'speech-start'; time: number }
+  | { type: 'speech-end'; time: number; duration: number }
+  | { type: 'silence'; time: number; duration: number };
+
+export interface VoiceActivityOptions {
+  // A pause at least this long ends a stretch of speech
+  pauseMs: number;
+  // Report continuous silence once it lasts this long; 0 never reports it
+  silenceMs: number;
+}
+
+// Speech has to stand this far above the noise floor (on the 0..1 level scale)
+const SPEECH_MARGIN = 0.12;
+// Sounds shorter than this are clicks and bumps, not speech
+const MIN_SPEECH_MS = 150;
+// How quickly the noise floor follows quieter and louder backgrounds
+const FLOOR_FALL_RATE = 0.05;
+const FLOOR_RISE_RATE = 0.005;
+const INITIAL_NOISE_FLOOR = 0.2;
+
+export function createVoiceActivityDetector({ pauseMs, silenceMs }: VoiceActivityOptions) {
+  let noiseFloor = INITIAL_NOISE_FLOOR;
+  let isSpeaking = false;
+  // When the current run of loud (or quiet) readings began
+  let loudSince: number | null = null;
+  let quietSince: number | null = null;
+  let speechStartedAt = 0;
+  let silenceReported = false;
+
+  // Returns the event this reading completes, if any
+  const process = (level: number, time: number): VoiceActivityEvent | null => {
+    const isLoud = level > noiseFloor + SPEECH_MARGIN;
+
+    if (isLoud) {
+      quietSince = null;
+      silenceReported = false;
+      loudSince ??= time;
+      if (!isSpeaking && time - loudSince >= MIN_SPEECH_MS) {
+        isSpeaking = true;
+        speechStartedAt = loudSince;
+        return { type: 'speech-start', time: loudSince };
+      }
+      return null;
+    }
+
+    loudSince = null;
+    quietSince ??= time;
+    // Only learn the background while nobody is talking
+    if (!isSpeaking) {
+      const rate = level < noiseFloor ? FLOOR_FALL_RATE : FLOOR_RISE_RATE;
+      noiseFloor += (level - noiseFloor) * rate;
+    }
+
+    if (isSpeaking && time - quietSince >= pauseMs) {
+      isSpeaking = false;
+      return { type: 'speech-end', time: quietSince, duration: quietSince - speechStartedAt };
+    }
+    if (!isSpeaking && silenceMs > 0 && !silenceReported && time - quietSince >= silenceMs) {
+      silenceReported = true;
+      return { type: 'silence', time, duration: time - quietSince };
+    }
+    return null;
+  };
+
+  return {
+    process,
+    isSpeaking: () => isSpeaking,
+  };
+}
+
+export type VoiceActivityDetector = ReturnType<typeof createVoiceActivityDetector>;
+
+// User-facing detection settings
+export interface VoiceActivitySettings {
+  enabled: boolean;
+  // Pause that ends a segment
+  pauseMs: number;
+  // Stop recording after this much silence; 0 keeps listening
+  autoPauseMs: number;
+}
+
+export const DEFAULT_VOICE_ACTIVITY_SETTINGS: VoiceActivitySettings = {
+  enabled: true,
+  pauseMs: 800,
+  autoPauseMs: 0,
+};
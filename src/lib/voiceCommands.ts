@@ -0,0 +1,87 @@
+// What happens when a spoken command is recognized
+export type VoiceCommandAction =
+  | { type: 'insert'; text: string }
+  | { type: 'capitalize-next' }
+  | { type: 'undo-segment' }
+  | { type: 'clear' }
+  | { type: 'stop-recording' };
+
+export interface VoiceCommand {
+  id: string;
+  label: string;
+  // Spoken phrases that trigger the command, matched case-insensitively on whole words
+  phrases: string[];
+  action: VoiceCommandAction;
+  custom?: boolean;
+}
+
+export type VoiceToken =
+  | { kind: 'text'; text: string }
+  | { kind: 'command'; command: VoiceCommand };
+
+export const DEFAULT_VOICE_COMMANDS: VoiceCommand[] = [
+  { id: 'period', label: 'Period', phrases: ['period', 'full stop'], action: { type: 'insert', text: '.' } },
+  { id: 'comma', label: 'Comma', phrases: ['comma'], action: { type: 'insert', text: ',' } },
+  { id: 'question-mark', label: 'Question mark', phrases: ['question mark'], action: { type: 'insert', text: '?' } },
+  { id: 'exclamation-mark', label: 'Exclamation mark', phrases: ['exclamation mark', 'exclamation point'], action: { type: 'insert', text: '!' } },
+  { id: 'colon', label: 'Colon', phrases: ['colon'], action: { type: 'insert', text: ':' } },
+  { id: 'semicolon', label: 'Semicolon', phrases: ['semicolon'], action: { type: 'insert', text: ';' } },
+  { id: 'new-line', label: 'New line', phrases: ['new line', 'newline'], action: { type: 'insert', text: '\n' } },
+  { id: 'new-paragraph', label: 'New paragraph', phrases: ['new paragraph'], action: { type: 'insert', text: '\n\n' } },
+  { id: 'capitalize', label: 'Capitalize next word', phrases: ['capitalize'], action: { type: 'capitalize-next' } },
+  { id: 'undo', label: 'Undo last segment', phrases: ['delete last sentence', 'undo that', 'scratch that'], action: { type: 'undo-segment' } },
+  { id: 'clear', label: 'Clear transcript', phrases: ['clear all', 'clear transcript'], action: { type: 'clear' } },
+  { id: 'stop', label: 'Stop recording', phrases: ['stop recording', 'stop listening'], action: { type: 'stop-recording' } },
+];
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{M}\p{N}']/gu, '');
+
+/**
+ * Split a final transcript into plain text and command tokens. Longer phrases
+ * win over shorter ones, so "new paragraph" is never read as "new" + text.
+ */
+export function parseVoiceCommands(transcript: string, commands: VoiceCommand[]): VoiceToken[] {
+  const words = transcript.trim().split(/\s+/).filter(Boolean);
+  const normalizedWords = words.map(normalizeWord);
+
+  const candidates = commands
+    .flatMap(command => command.phrases.map(phrase => ({
+      command,
+      words: phrase.trim().split(/\s+/).map(normalizeWord).filter(Boolean),
+    })))
+    .filter(candidate => candidate.words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length);
+
+  const tokens: VoiceToken[] = [];
+  let textWords: string[] = [];
+
+  const flushText = () => {
+    if (textWords.length > 0) {
+      tokens.push({ kind: 'text', text: textWords.join(' ') });
+      textWords = [];
+    }
+  };
+
+  let i = 0;
+  while (i < words.length) {
+    const match = candidates.find(candidate =>
+      candidate.words.every((word, offset) => normalizedWords[i + offset] === word)
+    );
+
+    if (match) {
+      flushText();
+      tokens.push({ kind: 'command', command: match.command });
+      i += match.words.length;
+    } else {
+      textWords.push(words[i]);
+      i++;
+    }
+  }
+  flushText();
+
+  return tokens;
+}
+
+export function capitalizeFirst(text: string) {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,115 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Search, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import TranscriptListItem from '@/components/TranscriptListItem';
+import { useTranscriptLibrary } from '@/hooks/useTranscriptLibrary';
+import { segmentsToText } from '@/lib/transcript';
+import { parseTranscriptJson } from '@/lib/export';
+
+const History = () => {
+  const { transcripts, saveTranscript, renameTranscript, deleteTranscript, duplicateTranscript } = useTranscriptLibrary();
+  const [query, setQuery] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Bring back a transcript previously exported as JSON
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const transcript = parseTranscriptJson(await file.text());
+      if (saveTranscript(transcript)) {
+        toast.success(`Imported "${transcript.title}"`);
+      }
+    } catch (error) {
+      console.error('Error importing transcript:', error);
+      toast.error(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  // Newest first, filtered by title or content
+  const visibleTranscripts = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return [...transcripts]
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .filter(transcript => !needle ||
+        transcript.title.toLowerCase().includes(needle) ||
+        segmentsToText(transcript.segments).toLowerCase().includes(needle)
+      );
+  }, [transcripts, query]);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 bg-background">
+      <div className="w-full max-w-3xl mx-auto space-y-6 animate-fade-in">
+        <header className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold tracking-tight">History</h1>
+            <p className="text-muted-foreground text-sm">
+              Every transcript you save or clear is kept here.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-1" />
+              Import
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back to dictation
+              </Link>
+            </Button>
+          </div>
+        </header>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search transcripts"
+            className="pl-9"
+          />
+        </div>
+
+        {visibleTranscripts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            {transcripts.length === 0 ? 'No saved transcripts yet.' : 'No transcripts match your search.'}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {visibleTranscripts.map(transcript => (
+              <TranscriptListItem
+                key={transcript.id}
+                transcript={transcript}
+                onRename={(title) => renameTranscript(transcript.id, title)}
+                onDuplicate={() => {
+                  if (duplicateTranscript(transcript.id)) {
+                    toast.success('Transcript duplicated');
+                  }
+                }}
+                onDelete={() => {
+                  deleteTranscript(transcript.id);
+                  toast.info('Transcript deleted');
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -2,71 +2,395 @@
 import React from 'react';
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
 import { useRealTimeSharing } from '@/hooks/useRealTimeSharing';
+import { useSettings } from '@/hooks/useSettings';
+import { useSharedDocument } from '@/hooks/useSharedDocument';
+import { useDevicePairing } from '@/hooks/useDevicePairing';
 import MicrophoneButton from '@/components/MicrophoneButton';
 import TranscriptionDisplay from '@/components/TranscriptionDisplay';
 import VoiceVisualizer from '@/components/VoiceVisualizer';
 import ConnectionInterface from '@/components/ConnectionInterface';
+import ConversationView from '@/components/ConversationView';
+import SharedNotesEditor from '@/components/SharedNotesEditor';
+import LanguageSelector from '@/components/LanguageSelector';
+import VoiceCommandsDialog from '@/components/VoiceCommandsDialog';
+import AudioSettingsDialog from '@/components/AudioSettingsDialog';
+import SpeechEngineDialog from '@/components/SpeechEngineDialog';
+import KeyboardShortcutsDialog from '@/components/KeyboardShortcutsDialog';
+import TextCleanupDialog from '@/components/TextCleanupDialog';
+import CaptureView from '@/components/CaptureView';
+import { buildPostProcessor } from '@/lib/postProcessing';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
-import { LogOut } from 'lucide-react';
+import { AudioLines, History, LogOut, Save } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { DEFAULT_VOICE_COMMANDS } from '@/lib/voiceCommands';
+import { parseSessionLink } from '@/lib/sessionCrypto';
+import { getRecordingIds, segmentsToText } from '@/lib/transcript';
+import { useTranscriptLibrary } from '@/hooks/useTranscriptLibrary';
+import { defaultTranscriptTitle } from '@/lib/transcriptLibrary';
+import ExportMenu from '@/components/ExportMenu';
+import SyncStatusIndicator from '@/components/SyncStatusIndicator';
+import ConnectionStatusIndicator from '@/components/ConnectionStatusIndicator';
+import { useLocalDraft } from '@/hooks/useLocalDraft';
+import { useAudioRecorder } from '@/hooks/useAudioRecorder';
+import { useAudioPlayback } from '@/hooks/useAudioPlayback';
+import { Toggle } from '@/components/ui/toggle';
+import type { SegmentAudio, TranscriptSegment } from '@/lib/transcript';
 
 const Index = () => {
-  const { text, isRecording, toggleRecording, resetText, setText } = useSpeechRecognition();
+  const { settings, updateSettings } = useSettings();
+  const voiceCommands = React.useMemo(
+    () => settings.voiceCommandsEnabled
+      ? [...DEFAULT_VOICE_COMMANDS, ...settings.customVoiceCommands]
+      : [],
+    [settings.voiceCommandsEnabled, settings.customVoiceCommands]
+  );
+  const postProcess = React.useMemo(
+    () => buildPostProcessor({
+      autoPunctuation: settings.autoPunctuation,
+      replacements: settings.textReplacements,
+    }),
+    [settings.autoPunctuation, settings.textReplacements]
+  );
+  // Invite links (/s/<session>) carry the session, its encryption key and maybe an invite token
+  const [initialInvite] = React.useState(() => parseSessionLink(window.location.href));
   const { 
     userId, 
     userName, 
     sessionId,
     connectedUsers, 
-    messages,
+    roster,
+    pairedWith,
+    interimTexts,
+    speakerLevels,
+    remoteSegments,
+    capturedStreams,
+    rejectedMessages,
+    participantNames,
+    sessionLink,
+    syncStatus,
+    connectionState,
+    queuedCount,
     updateTranscription, 
+    broadcastInterim,
+    broadcastLevel,
+    sendEvent,
+    onEvent,
     updateRecordingStatus,
     createSession,
     joinSession,
+    rotatePassphrase,
+    createInviteLink,
+    isSessionOwner,
     disconnectSession,
+    reconnect,
+    pairWith,
     updateUserName
-  } = useRealTimeSharing();
+  } = useRealTimeSharing({ language: settings.language, resumeSession: !initialInvite });
+  // The recorder needs the recording state, so segments reach it through a ref
+  const audioLinkRef = React.useRef<(startTime: number, endTime: number) => SegmentAudio | undefined>();
+  const getAudioLink = React.useCallback(
+    (startTime: number, endTime: number) => audioLinkRef.current?.(startTime, endTime),
+    []
+  );
+  // Clearing happens inside recognition too (the voice command), so it reports back through a ref
+  const transcriptResetRef = React.useRef<(cleared: TranscriptSegment[]) => void>();
+  const handleTranscriptReset = React.useCallback(
+    (cleared: TranscriptSegment[]) => transcriptResetRef.current?.(cleared),
+    []
+  );
+  // The spoken clear command saves to history first, like the button and the shortcut
+  const clearRequestRef = React.useRef<() => void>();
+  const handleClearRequested = React.useCallback(() => clearRequestRef.current?.(), []);
+  const {
+    text,
+    interimText,
+    segments,
+    isRecording,
+    isReconnecting,
+    toggleRecording,
+    startRecording,
+    stopRecording,
+    resetText,
+    setText,
+    setSegments
+  } = useSpeechRecognition({
+    engineId: settings.speechEngine,
+    serverUrl: settings.speechServerUrl,
+    lang: settings.language,
+    microphone: settings.microphone,
+    voiceActivity: settings.voiceActivity,
+    speakerId: userId,
+    voiceCommands,
+    postProcess,
+    getAudioLink,
+    onReset: handleTranscriptReset,
+    onClearRequested: handleClearRequested
+  });
+  const {
+    isCapturing: isCapturingAudio,
+    recordingId: activeRecordingId,
+    getAudioLink: getRecordedAudioLink
+  } = useAudioRecorder({
+    enabled: settings.recordAudio,
+    isRecording,
+    microphone: settings.microphone
+  });
+  audioLinkRef.current = getRecordedAudioLink;
+  const { playingSegmentId, playSegment } = useAudioPlayback();
+
+  // Keep the key and invite token out of the address bar once they have been read
+  React.useEffect(() => {
+    if (initialInvite) {
+      window.history.replaceState(null, '', '/');
+    }
+  }, [initialInvite]);
+
+  // Invite links with a token join straight away; others still ask for the passphrase
+  const autoJoinAttemptedRef = React.useRef(false);
+  React.useEffect(() => {
+    if (autoJoinAttemptedRef.current || !initialInvite?.inviteToken) return;
+    autoJoinAttemptedRef.current = true;
+    joinSession(initialInvite.sessionId, { inviteToken: initialInvite.inviteToken }, initialInvite.secret);
+  }, [initialInvite, joinSession]);
+
+  // Links made to pair a phone turn it into a microphone once it is in the session
+  const autoPairAppliedRef = React.useRef(false);
+  React.useEffect(() => {
+    if (autoPairAppliedRef.current || !initialInvite?.pairWith) return;
+    if (sessionId !== initialInvite.sessionId || initialInvite.pairWith === userId) return;
+    autoPairAppliedRef.current = true;
+    pairWith(initialInvite.pairWith);
+  }, [initialInvite, sessionId, userId, pairWith]);
+
+  // Dictation from paired microphones lands in this transcript, and leaves theirs
+  useDevicePairing({
+    sessionId,
+    userId,
+    pairedWith,
+    capturedStreams,
+    segments,
+    setSegments,
+    sendEvent,
+    onEvent
+  });
+
+  // Survive reloads: the draft lives in IndexedDB until it is cleared
+  const { lastSavedAt: draftSavedAt } = useLocalDraft({ segments, setSegments });
+
+  const sharedNotes = useSharedDocument({ sessionId, userId, sendEvent, onEvent });
+  const { saveTranscript, releaseRecordings } = useTranscriptLibrary();
+  // Cleared audio goes too, unless history or the recording still in progress uses it
+  transcriptResetRef.current = (cleared) => {
+    releaseRecordings(getRecordingIds(cleared), activeRecordingId ? [activeRecordingId] : []);
+  };
+  // Library entry for the current dictation, so repeated saves update it in place
+  const libraryIdRef = React.useRef<string | null>(null);
 
   // Update other users when recording status changes
   React.useEffect(() => {
     updateRecordingStatus(isRecording);
   }, [isRecording, updateRecordingStatus]);
 
-  // Update transcription when text changes
+  // Update transcription when the segments change. A microphone's transcript empties
+  // as its display takes the text, and the display has to see that too.
   React.useEffect(() => {
-    if (text) {
-      updateTranscription(text);
+    if (text || pairedWith) {
+      updateTranscription(segments);
     }
-  }, [text, updateTranscription]);
+  }, [text, segments, pairedWith, updateTranscription]);
 
-  // Display the latest message from any connected user
+  // Share the pending hypothesis as a separate low-priority event. A microphone
+  // always shares it, since its display shows it as it is spoken.
   React.useEffect(() => {
-    if (messages.length > 0) {
-      // Get the latest message
-      const latestMessage = messages[messages.length - 1];
-      
-      // Only update the text if it's not from the current user
-      // to prevent feedback loops
-      if (latestMessage.userId !== userId && latestMessage.text) {
-        setText(latestMessage.text);
-      }
+    if (settings.shareInterimResults || pairedWith) {
+      broadcastInterim(interimText);
+    }
+  }, [interimText, settings.shareInterimResults, pairedWith, broadcastInterim]);
+
+  // The whole conversation, including other speakers, with everyone's names
+  const getConversation = () => {
+    const allSegments = [...segments, ...Object.values(remoteSegments).flat()]
+      .sort((a, b) => a.startTime - b.startTime);
+    
+    const knownNames: {[key: string]: string} = { ...participantNames, [userId]: userName };
+    Object.entries(connectedUsers).forEach(([id, user]) => { knownNames[id] = user.name; });
+    
+    const participants: {[key: string]: string} = {};
+    allSegments.forEach(segment => {
+      participants[segment.speakerId] = knownNames[segment.speakerId] ?? 'Former participant';
+    });
+    
+    return { segments: allSegments, participants };
+  };
+
+  const saveToLibrary = (): 'saved' | 'empty' | 'failed' => {
+    const conversation = getConversation();
+    if (!segmentsToText(conversation.segments).trim()) return 'empty';
+    
+    const id = saveTranscript({
+      ...conversation,
+      id: libraryIdRef.current ?? undefined,
+      sessionId: sessionId || undefined
+    });
+    // The library hook has already reported the failure
+    if (!id) return 'failed';
+    libraryIdRef.current = id;
+    return 'saved';
+  };
+
+  const getExportTranscript = () => {
+    const conversation = getConversation();
+    const createdAt = conversation.segments[0]?.startTime ?? Date.now();
+    return { ...conversation, title: defaultTranscriptTitle(new Date(createdAt)), createdAt };
+  };
+
+  const handleSave = () => {
+    const result = saveToLibrary();
+    if (result === 'saved') {
+      toast.success("Saved to history");
+    } else if (result === 'empty') {
+      toast.info("Nothing to save yet");
     }
-  }, [messages, userId, setText]);
+  };
 
   const handleReset = () => {
+    const result = saveToLibrary();
+    // Clearing would lose text that exists nowhere else
+    if (result === 'failed') return;
+    libraryIdRef.current = null;
     resetText();
-    toast.info("Transcription cleared");
+    toast.info(result === 'saved' ? "Transcription saved to history and cleared" : "Transcription cleared");
   };
+  clearRequestRef.current = handleReset;
 
   const handleTextChange = (newText: string) => {
+    // The segments effect above shares the edit once it has been applied
     setText(newText);
-    // Immediate update for text changes from input
-    updateTranscription(newText);
+  };
+
+  const handleInsertDraft = () => {
+    if (!text.trim()) {
+      toast.info("Nothing to add yet");
+      return;
+    }
+    const notes = sharedNotes.text;
+    const newNotes = notes ? `${notes.trimEnd()}\n${text}` : text;
+    sharedNotes.updateText(newNotes, newNotes.length);
   };
 
   const handleDisconnect = () => {
     disconnectSession();
   };
 
+  const handleCopy = () => {
+    if (!text.trim()) {
+      toast.info("Nothing to copy");
+      return;
+    }
+    navigator.clipboard.writeText(text)
+      .then(() => toast.success("Copied to clipboard"))
+      .catch(error => {
+        console.error('Error copying transcript:', error);
+        toast.error("Could not copy to the clipboard");
+      });
+  };
+
+  // Push-to-talk: record only while the key or button is held
+  const isTalkingRef = React.useRef(false);
+  const handleTalkStart = () => {
+    if (isTalkingRef.current) return;
+    isTalkingRef.current = true;
+    if (!isRecording) startRecording();
+  };
+  const handleTalkEnd = () => {
+    if (!isTalkingRef.current) return;
+    isTalkingRef.current = false;
+    stopRecording();
+  };
+
+  const [isShortcutsOpen, setIsShortcutsOpen] = React.useState(false);
+  const [isExportOpen, setIsExportOpen] = React.useState(false);
+
+  useKeyboardShortcuts(settings.shortcuts, {
+    onAction: (action) => {
+      switch (action) {
+        case 'toggleRecording':
+          toggleRecording();
+          break;
+        case 'clear':
+          if (text) handleReset();
+          break;
+        case 'copy':
+          handleCopy();
+          break;
+        case 'export':
+          if (text) {
+            setIsExportOpen(true);
+          } else {
+            toast.info("Nothing to export yet");
+          }
+          break;
+        case 'showShortcuts':
+          setIsShortcutsOpen(true);
+          break;
+      }
+    },
+    onTalkStart: settings.pushToTalk ? handleTalkStart : undefined,
+    onTalkEnd: settings.pushToTalk ? handleTalkEnd : undefined,
+  });
+
+  // Who else is talking, so push-to-talk users can wait their turn
+  const otherSpeakers = Object.entries(connectedUsers)
+    .filter(([id, user]) => id !== userId && user.isRecording)
+    .map(([, user]) => user.name);
+  const talkHint = settings.pushToTalk && otherSpeakers.length > 0
+    ? `${otherSpeakers.join(', ')} ${otherSpeakers.length === 1 ? 'is' : 'are'} talking`
+    : undefined;
+
+  const connectionStatus = sessionId && (
+    <ConnectionStatusIndicator
+      state={connectionState}
+      sessionId={sessionId}
+      onReconnect={reconnect}
+    />
+  );
+
+  if (sessionId && pairedWith) {
+    const display = roster[pairedWith];
+    return (
+      <CaptureView
+        userId={userId}
+        userName={userName}
+        displayName={display?.name ?? participantNames[pairedWith] ?? 'another participant'}
+        isDisplayOnline={!!display && display.status !== 'offline'}
+        isRecording={isRecording}
+        isReconnecting={isReconnecting}
+        interimText={interimText}
+        pendingText={text}
+        language={settings.language}
+        visualizerMode={settings.visualizerMode}
+        microphone={settings.microphone}
+        onToggleRecording={toggleRecording}
+        onLanguageChange={(language) => updateSettings({ language })}
+        onVisualizerModeChange={(visualizerMode) => updateSettings({ visualizerMode })}
+        onLevel={broadcastLevel}
+        onUnpair={() => pairWith(null)}
+      >
+        {connectionStatus}
+      </CaptureView>
+    );
+  }
+
+  // What paired microphones are hearing right now, shown as if spoken here
+  const pairedInterimText = [
+    interimText,
+    ...Object.entries(roster)
+      .filter(([, user]) => user.pairedWith === userId && user.status !== 'offline')
+      .map(([id]) => interimTexts[id]),
+  ].filter(Boolean).join(' ');
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-background">
       <div className="w-full max-w-3xl mx-auto flex flex-col items-center space-y-8 animate-fade-in">
@@ -80,23 +404,36 @@ const Index = () => {
           <p className="text-muted-foreground max-w-md mx-auto">
             Speak naturally and watch your words appear on screen in real-time
           </p>
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/history">
+              <History className="h-4 w-4 mr-1" />
+              History
+            </Link>
+          </Button>
         </header>
 
         <ConnectionInterface
           sessionId={sessionId}
+          userId={userId}
           userName={userName}
-          connectedUsers={connectedUsers}
+          roster={roster}
+          isSessionOwner={isSessionOwner}
+          sessionLink={sessionLink}
+          initialInvite={initialInvite}
           onCreateSession={createSession}
           onJoinSession={joinSession}
+          onRotatePassphrase={rotatePassphrase}
+          onCreateInvite={createInviteLink}
           onChangeUserName={updateUserName}
+          onPairWith={pairWith}
         />
 
         <div className="w-full space-y-8">
           {sessionId && (
             <div className="w-full flex flex-wrap gap-2 justify-center mb-4">
-              <div className="text-xs px-3 py-1 rounded-full bg-primary text-primary-foreground">
-                Connected to session: {sessionId.substring(0, 6)}...
-              </div>
+              {connectionStatus}
+              
+              <SyncStatusIndicator status={syncStatus} queuedCount={queuedCount} />
               
               {Object.keys(connectedUsers).length > 1 && (
                 <div className="text-xs px-3 py-1 rounded-full bg-green-500 text-white">
@@ -116,8 +453,40 @@ const Index = () => {
             </div>
           )}
 
+          {(sessionId || settings.recordAudio) && (
+            <ConversationView
+              currentUserId={userId}
+              localSegments={segments}
+              remoteSegments={remoteSegments}
+              connectedUsers={connectedUsers}
+              interimTexts={interimTexts}
+              rejectedMessages={rejectedMessages}
+              participantNames={participantNames}
+              onSegmentClick={playSegment}
+              playingSegmentId={playingSegmentId}
+            />
+          )}
+
+          {sessionId && (
+            <SharedNotesEditor
+              text={sharedNotes.text}
+              remoteCursors={sharedNotes.remoteCursors}
+              connectedUsers={connectedUsers}
+              onTextChange={sharedNotes.updateText}
+              onCursorChange={sharedNotes.updateCursor}
+              onInsertDraft={handleInsertDraft}
+            />
+          )}
+
+          {!sessionId && text && (
+            <div className="flex justify-center">
+              <SyncStatusIndicator status="local" draftSavedAt={draftSavedAt} />
+            </div>
+          )}
+
           <TranscriptionDisplay 
             text={text} 
+            interimText={pairedInterimText}
             isRecording={isRecording} 
             onTextChange={handleTextChange}
           />
@@ -127,16 +496,101 @@ const Index = () => {
               isRecording={isRecording}
               userId={userId}
               userName={userName}
+              microphone={settings.microphone}
+              mode={settings.visualizerMode}
+              onModeChange={(visualizerMode) => updateSettings({ visualizerMode })}
+              onLevel={broadcastLevel}
             />
+
+            {Object.entries(connectedUsers)
+              .filter(([id, user]) => id !== userId && user.isRecording)
+              .map(([id, user]) => (
+                <VoiceVisualizer
+                  key={id}
+                  isRecording
+                  userId={id}
+                  userName={user.name}
+                  level={speakerLevels[id] ?? 0}
+                  mode={settings.visualizerMode}
+                />
+              ))}
             
             <div className="space-y-6">
+              <div className="flex flex-wrap justify-center gap-2">
+                <LanguageSelector
+                  language={settings.language}
+                  onChange={(language) => updateSettings({ language })}
+                />
+                <VoiceCommandsDialog
+                  enabled={settings.voiceCommandsEnabled}
+                  customCommands={settings.customVoiceCommands}
+                  onEnabledChange={(voiceCommandsEnabled) => updateSettings({ voiceCommandsEnabled })}
+                  onCustomCommandsChange={(customVoiceCommands) => updateSettings({ customVoiceCommands })}
+                />
+                <TextCleanupDialog
+                  autoPunctuation={settings.autoPunctuation}
+                  replacements={settings.textReplacements}
+                  onAutoPunctuationChange={(autoPunctuation) => updateSettings({ autoPunctuation })}
+                  onReplacementsChange={(textReplacements) => updateSettings({ textReplacements })}
+                />
+                <AudioSettingsDialog
+                  settings={settings.microphone}
+                  onChange={(microphone) => updateSettings({ microphone })}
+                  voiceActivity={settings.voiceActivity}
+                  onVoiceActivityChange={(voiceActivity) => updateSettings({ voiceActivity })}
+                />
+                <SpeechEngineDialog
+                  engineId={settings.speechEngine}
+                  serverUrl={settings.speechServerUrl}
+                  onEngineChange={(speechEngine) => updateSettings({ speechEngine })}
+                  onServerUrlChange={(speechServerUrl) => updateSettings({ speechServerUrl })}
+                />
+                <Toggle
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs gap-1"
+                  pressed={settings.recordAudio}
+                  onPressedChange={(recordAudio) => updateSettings({ recordAudio })}
+                  title="Keep the audio on this device so sentences can be played back"
+                >
+                  <AudioLines className={isCapturingAudio ? 'h-3.5 w-3.5 text-destructive animate-pulse' : 'h-3.5 w-3.5'} />
+                  Record audio
+                </Toggle>
+                <KeyboardShortcutsDialog
+                  open={isShortcutsOpen}
+                  onOpenChange={setIsShortcutsOpen}
+                  bindings={settings.shortcuts}
+                  onBindingsChange={(shortcuts) => updateSettings({ shortcuts })}
+                  pushToTalk={settings.pushToTalk}
+                  onPushToTalkChange={(pushToTalk) => updateSettings({ pushToTalk })}
+                />
+              </div>
+
               <MicrophoneButton 
                 isRecording={isRecording} 
+                isReconnecting={isReconnecting}
                 onClick={toggleRecording} 
+                pushToTalk={settings.pushToTalk}
+                onPressStart={handleTalkStart}
+                onPressEnd={handleTalkEnd}
+                hint={talkHint}
               />
               
               {text && (
-                <div className="flex justify-center animate-fade-in">
+                <div className="flex justify-center gap-2 animate-fade-in">
+                  <Button
+                    variant="outline"
+                    onClick={handleSave}
+                    className="text-sm"
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    Save
+                  </Button>
+                  <ExportMenu
+                    getTranscript={getExportTranscript}
+                    open={isExportOpen}
+                    onOpenChange={setIsExportOpen}
+                  />
                   <Button
                     variant="outline"
                     onClick={handleReset}
@@ -153,7 +607,7 @@ const Index = () => {
         <footer className="w-full max-w-xl mx-auto bg-muted/40 rounded-lg p-4 text-center text-sm text-muted-foreground">
           <p className="font-medium mb-1">📢 Share your session ID to collaborate in real-time</p>
           <p>Click the microphone to speak, or edit text directly in the textbox</p>
-          <p className="mt-1 text-xs">Text will stay visible until you click the Clear Text button</p>
+          <p className="mt-1 text-xs">Clearing the text saves it to your history first</p>
         </footer>
       </div>
     </div>
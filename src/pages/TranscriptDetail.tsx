@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Copy, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import ConversationView from '@/components/ConversationView';
+import TranscriptionDisplay from '@/components/TranscriptionDisplay';
+import ExportMenu from '@/components/ExportMenu';
+import { useTranscriptLibrary } from '@/hooks/useTranscriptLibrary';
+import { useAudioPlayback } from '@/hooks/useAudioPlayback';
+import { applyTextEdit, segmentsToText, TranscriptSegment } from '@/lib/transcript';
+import { formatDuration, getTranscriptStats } from '@/lib/transcriptLibrary';
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+
+const TranscriptDetail = () => {
+  const { transcriptId = '' } = useParams();
+  const navigate = useNavigate();
+  const { getTranscript, updateTranscript, renameTranscript, deleteTranscript, duplicateTranscript } = useTranscriptLibrary();
+  const [isEditing, setIsEditing] = useState(false);
+  const { playingSegmentId, playSegment } = useAudioPlayback();
+  const [title, setTitle] = useState<string | null>(null);
+
+  const transcript = getTranscript(transcriptId);
+
+  // The conversation view expects one stream per speaker
+  const segmentsBySpeaker = useMemo(() => {
+    const streams: {[key: string]: TranscriptSegment[]} = {};
+    transcript?.segments.forEach(segment => {
+      (streams[segment.speakerId] ??= []).push(segment);
+    });
+    return streams;
+  }, [transcript]);
+
+  if (!transcript) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-6 bg-background">
+        <p className="text-muted-foreground">This transcript no longer exists.</p>
+        <Button variant="outline" asChild>
+          <Link to="/history">Back to history</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const stats = getTranscriptStats(transcript);
+
+  const handleTextChange = (newText: string) => {
+    // Typed text is attributed to whoever spoke first, keeping the rest of the metadata intact
+    const firstSegment = transcript.segments[0];
+    const segments = applyTextEdit(transcript.segments, newText, {
+      speakerId: firstSegment?.speakerId ?? 'local',
+      language: firstSegment?.language ?? DEFAULT_LANGUAGE,
+    });
+    updateTranscript(transcript.id, { segments });
+  };
+
+  const handleRename = () => {
+    if (title !== null) {
+      renameTranscript(transcript.id, title);
+    }
+    setTitle(null);
+  };
+
+  const handleDuplicate = () => {
+    const copyId = duplicateTranscript(transcript.id);
+    if (!copyId) return;
+    toast.success('Transcript duplicated');
+    navigate(`/history/${copyId}`);
+  };
+
+  const handleDelete = () => {
+    deleteTranscript(transcript.id);
+    toast.info('Transcript deleted');
+    navigate('/history');
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 bg-background">
+      <div className="w-full max-w-3xl mx-auto space-y-6 animate-fade-in">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/history">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            History
+          </Link>
+        </Button>
+
+        <header className="space-y-2">
+          <Input
+            value={title ?? transcript.title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className="text-2xl font-bold h-auto border-transparent hover:border-input px-2"
+            aria-label="Transcript title"
+          />
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-2 text-sm text-muted-foreground">
+            <span>{format(new Date(transcript.createdAt), 'd MMM yyyy, HH:mm')}</span>
+            <span>{formatDuration(stats.duration)}</span>
+            <span>{stats.wordCount} {stats.wordCount === 1 ? 'word' : 'words'}</span>
+            {Object.values(transcript.participants).length > 0 && (
+              <span>{Object.values(transcript.participants).join(', ')}</span>
+            )}
+          </div>
+        </header>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Switch id="edit-transcript" checked={isEditing} onCheckedChange={setIsEditing} />
+            <Label htmlFor="edit-transcript">Edit</Label>
+          </div>
+          <div className="flex gap-2">
+            <ExportMenu getTranscript={() => transcript} size="sm" />
+            <Button variant="outline" size="sm" onClick={handleDuplicate}>
+              <Copy className="h-4 w-4 mr-1" />
+              Duplicate
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        {isEditing ? (
+          <TranscriptionDisplay
+            text={segmentsToText(transcript.segments)}
+            isRecording={false}
+            onTextChange={handleTextChange}
+          />
+        ) : (
+          <ConversationView
+            currentUserId=""
+            localSegments={[]}
+            remoteSegments={segmentsBySpeaker}
+            connectedUsers={{}}
+            participantNames={transcript.participants}
+            onSegmentClick={playSegment}
+            playingSegmentId={playingSegmentId}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptDetail;
@@ -0,0 +1,259 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Issues short-lived access tokens for shared sessions. Passphrases and invite
+// tokens are verified here, never in the browser bundle.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ACCESS_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const MIN_PASSPHRASE_LENGTH = 8;
+const PBKDF2_ITERATIONS = 210_000;
+
+// Must be the project's JWT secret so Realtime accepts the tokens we sign.
+// Rotating it in the Supabase dashboard invalidates every outstanding token.
+const JWT_SECRET = Deno.env.get("SESSION_JWT_SECRET") ?? "";
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+);
+
+type AuthRequest =
+  | { action: "create"; passphrase: string }
+  | { action: "join"; sessionId: string; passphrase?: string; inviteToken?: string }
+  | { action: "rotate"; sessionId: string; ownerToken: string; passphrase: string }
+  | { action: "invite"; sessionId: string; ownerToken: string; expiresInMinutes?: number };
+
+class AuthError extends Error {
+  constructor(message: string, public status = 403) {
+    super(message);
+  }
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function randomToken(byteLength = 32) {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+async function sha256(value: string) {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(value));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+async function hashPassphrase(passphrase: string, salt: string) {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256,
+  );
+  return toBase64Url(new Uint8Array(bits));
+}
+
+// Constant-time comparison so hash checks don't leak timing information
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function signAccessToken(sessionId: string, keyVersion: number) {
+  const now = Math.floor(Date.now() / 1000);
+  const expiresAt = now + ACCESS_TOKEN_TTL_SECONDS;
+  const header = toBase64Url(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const payload = toBase64Url(encoder.encode(JSON.stringify({
+    sub: `participant-${randomToken(8)}`,
+    role: "authenticated",
+    aud: "authenticated",
+    session_id: sessionId,
+    key_version: keyVersion,
+    iat: now,
+    exp: expiresAt,
+  })));
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(JWT_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${header}.${payload}`));
+
+  return {
+    accessToken: `${header}.${payload}.${toBase64Url(new Uint8Array(signature))}`,
+    expiresAt: expiresAt * 1000,
+  };
+}
+
+function assertPassphrase(passphrase: unknown): asserts passphrase is string {
+  if (typeof passphrase !== "string" || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new AuthError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`, 400);
+  }
+}
+
+async function loadCredentials(sessionId: string) {
+  const { data, error } = await supabase
+    .from("session_credentials")
+    .select("*")
+    .eq("session_id", sessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  // Same message as a wrong passphrase so session IDs can't be probed
+  if (!data) throw new AuthError("Invalid session or credentials");
+  return data;
+}
+
+async function assertOwner(sessionId: string, ownerToken: string) {
+  const credentials = await loadCredentials(sessionId);
+  if (!safeEqual(await sha256(ownerToken ?? ""), credentials.owner_token_hash)) {
+    throw new AuthError("Only the session owner can do that");
+  }
+  return credentials;
+}
+
+async function handleCreate(passphrase: unknown) {
+  assertPassphrase(passphrase);
+
+  const sessionId = `session-${Array.from(crypto.getRandomValues(new Uint8Array(5)), (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+  const salt = randomToken(16);
+  const ownerToken = randomToken();
+
+  const { error } = await supabase.from("session_credentials").insert({
+    session_id: sessionId,
+    passphrase_hash: await hashPassphrase(passphrase, salt),
+    passphrase_salt: salt,
+    owner_token_hash: await sha256(ownerToken),
+  });
+  if (error) throw error;
+
+  const { error: sessionError } = await supabase.from("sessions").insert({ id: sessionId });
+  if (sessionError) throw sessionError;
+
+  return { sessionId, ownerToken, ...(await signAccessToken(sessionId, 1)) };
+}
+
+async function handleJoin(sessionId: string, passphrase?: string, inviteToken?: string) {
+  const credentials = await loadCredentials(sessionId);
+
+  if (inviteToken) {
+    const { data: invite, error } = await supabase
+      .from("session_invites")
+      .select("*")
+      .eq("token_hash", await sha256(inviteToken))
+      .eq("session_id", sessionId)
+      .maybeSingle();
+    if (error) throw error;
+
+    const expired = invite?.expires_at && new Date(invite.expires_at).getTime() < Date.now();
+    if (!invite || expired || invite.key_version !== credentials.key_version) {
+      throw new AuthError("This invite link is invalid or has expired");
+    }
+  } else {
+    const hash = await hashPassphrase(passphrase ?? "", credentials.passphrase_salt);
+    if (!safeEqual(hash, credentials.passphrase_hash)) {
+      throw new AuthError("Invalid session or credentials");
+    }
+  }
+
+  return { sessionId, ...(await signAccessToken(sessionId, credentials.key_version)) };
+}
+
+async function handleRotate(sessionId: string, ownerToken: string, passphrase: unknown) {
+  assertPassphrase(passphrase);
+  const credentials = await assertOwner(sessionId, ownerToken);
+
+  const salt = randomToken(16);
+  const keyVersion = credentials.key_version + 1;
+  const { error } = await supabase
+    .from("session_credentials")
+    .update({
+      passphrase_hash: await hashPassphrase(passphrase, salt),
+      passphrase_salt: salt,
+      key_version: keyVersion,
+      rotated_at: new Date().toISOString(),
+    })
+    .eq("session_id", sessionId);
+  if (error) throw error;
+
+  // Outstanding invites belong to the old key
+  await supabase.from("session_invites").delete().eq("session_id", sessionId);
+
+  return { sessionId, ...(await signAccessToken(sessionId, keyVersion)) };
+}
+
+async function handleInvite(sessionId: string, ownerToken: string, expiresInMinutes?: number) {
+  const credentials = await assertOwner(sessionId, ownerToken);
+
+  const inviteToken = randomToken();
+  const expiresAt = expiresInMinutes
+    ? new Date(Date.now() + expiresInMinutes * 60 * 1000).toISOString()
+    : null;
+
+  const { error } = await supabase.from("session_invites").insert({
+    token_hash: await sha256(inviteToken),
+    session_id: sessionId,
+    key_version: credentials.key_version,
+    expires_at: expiresAt,
+  });
+  if (error) throw error;
+
+  return { sessionId, inviteToken, expiresAt: expiresAt ? new Date(expiresAt).getTime() : null };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!JWT_SECRET) {
+      throw new Error("SESSION_JWT_SECRET is not configured");
+    }
+
+    const body = await req.json() as AuthRequest;
+    let result: unknown;
+
+    switch (body.action) {
+      case "create":
+        result = await handleCreate(body.passphrase);
+        break;
+      case "join":
+        result = await handleJoin(body.sessionId, body.passphrase, body.inviteToken);
+        break;
+      case "rotate":
+        result = await handleRotate(body.sessionId, body.ownerToken, body.passphrase);
+        break;
+      case "invite":
+        result = await handleInvite(body.sessionId, body.ownerToken, body.expiresInMinutes);
+        break;
+      default:
+        throw new AuthError("Unknown action", 400);
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const status = error instanceof AuthError ? error.status : 500;
+    if (status === 500) console.error("session-auth error", error);
+
+    return new Response(
+      JSON.stringify({ error: status === 500 ? "Internal error" : (error as Error).message }),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
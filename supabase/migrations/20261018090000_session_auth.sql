@@ -0,0 +1,55 @@
+-- Credentials for shared sessions. Only the session-auth edge function (service role)
+-- reads or writes these tables; clients never see hashes.
+create table public.session_credentials (
+  session_id text primary key,
+  passphrase_hash text not null,
+  passphrase_salt text not null,
+  owner_token_hash text not null,
+  -- Bumped on rotation; access tokens carrying an older version stop working immediately
+  key_version integer not null default 1,
+  created_at timestamptz not null default now(),
+  rotated_at timestamptz
+);
+
+alter table public.session_credentials enable row level security;
+
+create table public.session_invites (
+  token_hash text primary key,
+  session_id text not null references public.session_credentials (session_id) on delete cascade,
+  key_version integer not null,
+  expires_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table public.session_invites enable row level security;
+
+-- Checks the caller's session access token against the current key version.
+-- Security definer so realtime policies can consult the locked-down credentials table.
+create or replace function public.is_session_member(topic text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.session_credentials c
+    where topic = 'session:' || c.session_id
+      and c.session_id = auth.jwt() ->> 'session_id'
+      and c.key_version = coalesce((auth.jwt() ->> 'key_version')::integer, 0)
+  );
+$$;
+
+-- Private session channels only accept participants holding a valid access token
+create policy "Session members can receive broadcasts"
+  on realtime.messages
+  for select
+  to authenticated
+  using (public.is_session_member(realtime.topic()));
+
+create policy "Session members can send broadcasts"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (public.is_session_member(realtime.topic()));
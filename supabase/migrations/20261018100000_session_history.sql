@@ -0,0 +1,113 @@
+-- Durable session history. Participants read and write these tables with their
+-- session access token; segment text is encrypted client-side with the session
+-- key, so only timing and speaker metadata is visible to the server.
+create table public.sessions (
+  id text primary key references public.session_credentials (session_id) on delete cascade,
+  created_at timestamptz not null default now(),
+  last_active_at timestamptz not null default now()
+);
+
+alter table public.sessions enable row level security;
+
+create table public.participants (
+  session_id text not null references public.sessions (id) on delete cascade,
+  user_id text not null,
+  display_name text not null,
+  joined_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  primary key (session_id, user_id)
+);
+
+alter table public.participants enable row level security;
+
+create table public.transcript_segments (
+  id text primary key,
+  session_id text not null references public.sessions (id) on delete cascade,
+  speaker_id text not null,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  confidence real,
+  language text not null,
+  iv text not null,
+  ciphertext text not null,
+  updated_at timestamptz not null default now()
+);
+
+create index transcript_segments_session_start_idx
+  on public.transcript_segments (session_id, start_time);
+
+alter table public.transcript_segments enable row level security;
+
+-- Same check as is_session_member, for rows keyed by session id
+create or replace function public.has_session_access(target_session_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.session_credentials c
+    where c.session_id = target_session_id
+      and c.session_id = auth.jwt() ->> 'session_id'
+      and c.key_version = coalesce((auth.jwt() ->> 'key_version')::integer, 0)
+  );
+$$;
+
+create policy "Session members can read the session"
+  on public.sessions
+  for select
+  to authenticated
+  using (public.has_session_access(id));
+
+create policy "Session members can mark the session active"
+  on public.sessions
+  for update
+  to authenticated
+  using (public.has_session_access(id))
+  with check (public.has_session_access(id));
+
+create policy "Session members can read participants"
+  on public.participants
+  for select
+  to authenticated
+  using (public.has_session_access(session_id));
+
+create policy "Session members can register as participants"
+  on public.participants
+  for insert
+  to authenticated
+  with check (public.has_session_access(session_id));
+
+create policy "Session members can update participants"
+  on public.participants
+  for update
+  to authenticated
+  using (public.has_session_access(session_id))
+  with check (public.has_session_access(session_id));
+
+create policy "Session members can read segments"
+  on public.transcript_segments
+  for select
+  to authenticated
+  using (public.has_session_access(session_id));
+
+create policy "Session members can save segments"
+  on public.transcript_segments
+  for insert
+  to authenticated
+  with check (public.has_session_access(session_id));
+
+create policy "Session members can edit segments"
+  on public.transcript_segments
+  for update
+  to authenticated
+  using (public.has_session_access(session_id))
+  with check (public.has_session_access(session_id));
+
+create policy "Session members can remove segments"
+  on public.transcript_segments
+  for delete
+  to authenticated
+  using (public.has_session_access(session_id));
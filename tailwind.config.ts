@@ -89,11 +89,6 @@ export default {
 				'fade-up': {
 					'0%': { opacity: '0', transform: 'translateY(10px)' },
 					'100%': { opacity: '1', transform: 'translateY(0)' }
-				},
-				'wave': {
-					'0%': { transform: 'scaleY(1)' },
-					'50%': { transform: 'scaleY(0.5)' },
-					'100%': { transform: 'scaleY(1)' }
 				}
 			},
 			animation: {
@@ -101,12 +96,7 @@ export default {
 				'accordion-up': 'accordion-up 0.2s ease-out',
 				'pulse-ring': 'pulse-ring 1.5s cubic-bezier(0.215, 0.61, 0.355, 1) infinite',
 				'fade-in': 'fade-in 0.5s ease-out',
-				'fade-up': 'fade-up 0.5s ease-out',
-				'wave-1': 'wave 1.2s linear infinite',
-				'wave-2': 'wave 1.2s linear infinite 0.2s',
-				'wave-3': 'wave 1.2s linear infinite 0.4s',
-				'wave-4': 'wave 1.2s linear infinite 0.6s',
-				'wave-5': 'wave 1.2s linear infinite 0.8s'
+				'fade-up': 'fade-up 0.5s ease-out'
 			}
 		}
 	},